@@ -0,0 +1,8 @@
+#!/usr/bin/env bun
+// Not a Claude Code hook: spawned detached by the hooks to prefetch the next
+// session-start memory, with the hook-style JSON input as its argument
+import { initHook } from "../src/config.js";
+import { handlePrefetch } from "../src/hooks/prefetch.js";
+
+await initHook(process.argv[2] ?? "{}");
+await handlePrefetch();
@@ -49,6 +49,9 @@ rsync -a --delete \
   --exclude '.DS_Store' \
   "$PLUGIN_DIR/" "$CACHE_DIR/"
 
+# Deliver every tool your captureRules record (installed copy only)
+bun "$PLUGIN_DIR/scripts/sync-hooks-matcher.ts" --config --file "$CACHE_DIR/hooks/hooks.json"
+
 # Sync skills + plugin manifest to marketplace (skills are loaded from here)
 if [[ -d "$MARKETPLACE_DIR" ]]; then
   echo "  syncing marketplace skills..."
@@ -0,0 +1,56 @@
+#!/usr/bin/env bun
+/**
+ * Generate the PostToolUse matcher in hooks/hooks.json from the capture rules,
+ * so the hook is delivered every tool a rule can record (and nothing else).
+ *
+ *   bun scripts/sync-hooks-matcher.ts            rewrite hooks/hooks.json from the built-in rules
+ *   bun scripts/sync-hooks-matcher.ts --check    exit 1 if hooks/hooks.json is out of date
+ *   --config                                     also include captureRules from ~/.honcho/config.json
+ *   --file <path>                                target another hooks.json (e.g. the installed copy)
+ */
+
+import { readFileSync, writeFileSync } from "fs";
+import { loadGlobalConfig } from "../src/config.js";
+import { BUILTIN_CAPTURE_RULES, HOOKS_FILE, buildHooksMatcher, getCaptureRules } from "../src/capture.js";
+import type { HooksFile } from "../src/capture.js";
+
+const args = process.argv.slice(2);
+const check = args.includes("--check");
+const withConfig = args.includes("--config");
+const fileIndex = args.indexOf("--file");
+const file = fileIndex >= 0 && args[fileIndex + 1] ? args[fileIndex + 1] : HOOKS_FILE;
+
+const rules = withConfig ? getCaptureRules(loadGlobalConfig()) : BUILTIN_CAPTURE_RULES;
+const matcher = buildHooksMatcher(rules);
+
+let hooks: HooksFile;
+try {
+  hooks = JSON.parse(readFileSync(file, "utf-8")) as HooksFile;
+} catch (error) {
+  console.error(`  cannot read ${file}: ${error instanceof Error ? error.message : error}`);
+  process.exit(1);
+}
+
+const entries = hooks?.hooks?.PostToolUse ?? [];
+if (entries.length === 0) {
+  console.error(`  ${file} has no PostToolUse hook`);
+  process.exit(1);
+}
+
+const current = entries[0].matcher;
+if (current === matcher) {
+  console.log(`  PostToolUse matcher up to date: ${matcher}`);
+  process.exit(0);
+}
+
+if (check) {
+  console.error(`  PostToolUse matcher is out of date`);
+  console.error(`    hooks.json: ${current ?? "(none)"}`);
+  console.error(`    expected:   ${matcher}`);
+  console.error(`  run: bun scripts/sync-hooks-matcher.ts${withConfig ? " --config" : ""}`);
+  process.exit(1);
+}
+
+entries[0].matcher = matcher;
+writeFileSync(file, JSON.stringify(hooks, null, 2) + "\n");
+console.log(`  PostToolUse matcher: ${current ?? "(none)"} -> ${matcher}`);
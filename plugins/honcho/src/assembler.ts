@@ -0,0 +1,209 @@
+/**
+ * Token-budgeted context assembly
+ *
+ * session-start and pre-compact build their memory block from up to a dozen
+ * sections (profile, conclusions, summaries, dialectic answers, linked
+ * workspaces, local work log). This module fits them into one token budget:
+ *
+ * - Conclusions repeated across sections are kept only in the
+ *   highest-priority section that has them
+ * - Each section first gets its `minTokens`, then leftover budget is handed
+ *   out by priority
+ * - Sections are cut at line boundaries, never mid-line (unless a single
+ *   line is larger than the whole allowance)
+ *
+ * Sections are emitted in the order they were given, so priorities change
+ * what survives, not how the output reads.
+ */
+
+import type { ContextSectionBudget } from "./config.js";
+import { estimateTokens, truncateToTokens } from "./tokenizer.js";
+
+export interface ContextSection {
+  /** Stable id used for config overrides; "linked:work" is overridden by "linked" */
+  id: string;
+  /** Heading line, e.g. "## alice's Profile" (empty for none) */
+  title: string;
+  body: string;
+  /** Higher is more important (default: 50) */
+  priority?: number;
+  minTokens?: number;
+  maxTokens?: number;
+  /** Always emitted in full and never deduplicated (headers, footers) */
+  required?: boolean;
+}
+
+export interface AssembleOptions {
+  /** Total budget in tokens; 0 or undefined means no limit */
+  totalTokens?: number;
+  /** Per-section overrides from config, keyed by section id */
+  overrides?: Record<string, ContextSectionBudget>;
+}
+
+export interface AssembledContext {
+  /** Rendered sections, in input order, ready to join with blank lines */
+  parts: string[];
+  tokens: number;
+  /** Ids of sections that didn't fit at all */
+  dropped: string[];
+  /** Ids of sections that were cut short */
+  truncated: string[];
+  /** Lines removed because a higher-priority section already had them */
+  duplicatesRemoved: number;
+}
+
+const DEFAULT_PRIORITY = 50;
+// Lines shorter than this (after normalizing) are too generic to dedupe
+const MIN_DEDUPE_LENGTH = 20;
+
+interface WorkingSection extends ContextSection {
+  index: number;
+  priority: number;
+  lines: string[];
+  cost: number;
+  grant: number;
+}
+
+// ============================================
+// Helpers
+// ============================================
+
+function sectionCost(title: string, lines: string[]): number {
+  const text = title ? [title, ...lines].join("\n") : lines.join("\n");
+  // +1 for the blank line between sections
+  return estimateTokens(text) + 1;
+}
+
+/** Canonical form of a conclusion line: no bullets, tags, case or punctuation */
+function normalizeLine(line: string): string {
+  return line
+    .toLowerCase()
+    .replace(/^\s*(?:[-*•]|\d+\.)\s+/, "")
+    .replace(/^\[[^\]]*\]\s*/, "")
+    .replace(/[^\p{L}\p{N}]+/gu, " ")
+    .trim();
+}
+
+/**
+ * Keep as many whole lines as fit in `maxTokens`. If not even the first line
+ * fits, it is hard-truncated so the section still says something.
+ */
+function takeLines(lines: string[], maxTokens: number): string[] {
+  const kept: string[] = [];
+  let used = 0;
+  for (const line of lines) {
+    const cost = estimateTokens(line) + 1;
+    if (used + cost > maxTokens) {
+      if (kept.length === 0 && maxTokens > 8) {
+        kept.push(truncateToTokens(line, maxTokens - 1));
+      }
+      break;
+    }
+    kept.push(line);
+    used += cost;
+  }
+  // Don't end a cut section on a dangling blank line or heading
+  while (kept.length > 0 && (!kept[kept.length - 1].trim() || kept[kept.length - 1].startsWith("#"))) {
+    kept.pop();
+  }
+  return kept;
+}
+
+// ============================================
+// Assembly
+// ============================================
+
+export function assembleContext(sections: ContextSection[], options: AssembleOptions = {}): AssembledContext {
+  const result: AssembledContext = { parts: [], tokens: 0, dropped: [], truncated: [], duplicatesRemoved: 0 };
+
+  const working: WorkingSection[] = sections
+    .filter((s) => s.body.trim() || s.required)
+    .map((s, index) => {
+      const override = options.overrides?.[s.id] ?? options.overrides?.[s.id.split(":")[0]] ?? {};
+      return {
+        ...s,
+        priority: override.priority ?? s.priority ?? DEFAULT_PRIORITY,
+        minTokens: override.minTokens ?? s.minTokens,
+        maxTokens: override.maxTokens ?? s.maxTokens,
+        index,
+        lines: s.body.split("\n"),
+        cost: 0,
+        grant: 0,
+      };
+    });
+  const byPriority = [...working].sort((a, b) => b.priority - a.priority || a.index - b.index);
+
+  // Dedupe: the highest-priority section keeps a conclusion, later ones drop it
+  const seen = new Set<string>();
+  for (const section of byPriority) {
+    if (section.required) continue;
+    section.lines = section.lines.filter((line) => {
+      if (line.startsWith("#")) return true;
+      const key = normalizeLine(line);
+      if (key.length < MIN_DEDUPE_LENGTH) return true;
+      if (seen.has(key)) {
+        result.duplicatesRemoved++;
+        return false;
+      }
+      seen.add(key);
+      return true;
+    });
+  }
+
+  // Per-section caps
+  for (const section of working) {
+    if (section.maxTokens && !section.required) {
+      const titleCost = section.title ? estimateTokens(section.title) + 1 : 0;
+      const capped = takeLines(section.lines, section.maxTokens - titleCost);
+      if (capped.length < section.lines.length) result.truncated.push(section.id);
+      section.lines = capped;
+    }
+    // A section left with only headings after dedupe has nothing to say
+    const hasContent = section.lines.some((l) => l.trim() && !l.startsWith("#"));
+    section.cost = hasContent || section.required ? sectionCost(section.title, section.lines) : 0;
+  }
+
+  // Allocate: required sections, then minimums, then the rest by priority
+  const budget = options.totalTokens && options.totalTokens > 0 ? options.totalTokens : Infinity;
+  let remaining = budget;
+  for (const section of working) {
+    if (section.required) {
+      section.grant = section.cost;
+      remaining -= section.cost;
+    }
+  }
+  for (const section of byPriority) {
+    if (section.required || remaining <= 0) continue;
+    section.grant = Math.min(section.cost, section.minTokens ?? 0, remaining);
+    remaining -= section.grant;
+  }
+  for (const section of byPriority) {
+    if (section.required || remaining <= 0) continue;
+    const extra = Math.min(section.cost - section.grant, remaining);
+    section.grant += extra;
+    remaining -= extra;
+  }
+
+  // Render in input order
+  for (const section of working) {
+    if (section.cost === 0) continue;
+
+    let lines = section.lines;
+    if (section.grant < section.cost) {
+      const titleCost = section.title ? estimateTokens(section.title) + 1 : 0;
+      lines = takeLines(lines, section.grant - titleCost - 1);
+      if (lines.length === 0) {
+        result.dropped.push(section.id);
+        continue;
+      }
+      if (!result.truncated.includes(section.id)) result.truncated.push(section.id);
+    }
+
+    const body = lines.join("\n");
+    const part = section.title ? (body ? `${section.title}\n${body}` : section.title) : body;
+    result.parts.push(part);
+    result.tokens += estimateTokens(part);
+  }
+
+  return result;
+}
@@ -1,12 +1,14 @@
 import { homedir } from "os";
 import { join } from "path";
-import { existsSync, readFileSync, writeFileSync, appendFileSync, mkdirSync } from "fs";
+import { existsSync, mkdirSync } from "fs";
+import { createHash } from "crypto";
 import { getContextRefreshConfig, getLocalContextConfig } from "./config.js";
+import { estimateTokens, tokenPrefixLength } from "./tokenizer.js";
+import { readJsonFile, writeJsonFile, updateJsonFile, readTextFile, writeFileAtomic, updateTextFile, withFileLock } from "./storage.js";
 
 const CACHE_DIR = join(homedir(), ".honcho");
 const ID_CACHE_FILE = join(CACHE_DIR, "cache.json");
 const CONTEXT_CACHE_FILE = join(CACHE_DIR, "context-cache.json");
-const MESSAGE_QUEUE_FILE = join(CACHE_DIR, "message-queue.jsonl");
 const CLAUDE_CONTEXT_FILE = join(CACHE_DIR, "claude-context.md");
 
 // Ensure cache directory exists
@@ -20,28 +22,40 @@ function ensureCacheDir(): void {
 // ID Cache - workspace, session, peer IDs
 // ============================================
 
+interface CachedSessionEntry {
+  name: string;
+  id: string;
+  updatedAt: string;
+  /** The Claude session that started here most recently */
+  instanceId?: string;
+  /** Claude sessions started here whose session-end hasn't run: instance id -> start time */
+  openInstances?: Record<string, string>;
+}
+
+// An open instance whose session-end never ran (crash, kill) stops counting after this
+const OPEN_INSTANCE_MAX_AGE_MS = 24 * 60 * 60 * 1000;
+
 interface IdCache {
   workspace?: { name: string; id: string };
   peers?: Record<string, string>; // peerName -> peerId
-  sessions?: Record<string, { name: string; id: string; updatedAt: string; instanceId?: string }>; // cwd -> session info
+  sessions?: Record<string, CachedSessionEntry>; // cwd -> session info
   claudeInstanceId?: string; // DEPRECATED: use per-cwd instanceId in sessions map instead
 }
 
 export function loadIdCache(): IdCache {
   ensureCacheDir();
-  if (!existsSync(ID_CACHE_FILE)) {
-    return {};
-  }
-  try {
-    return JSON.parse(readFileSync(ID_CACHE_FILE, "utf-8"));
-  } catch {
-    return {};
-  }
+  return readJsonFile<IdCache>(ID_CACHE_FILE, {});
 }
 
 export function saveIdCache(cache: IdCache): void {
   ensureCacheDir();
-  writeFileSync(ID_CACHE_FILE, JSON.stringify(cache, null, 2));
+  writeJsonFile(ID_CACHE_FILE, cache);
+}
+
+/** Locked read-modify-write, so concurrent hooks don't drop each other's updates */
+function updateIdCache(mutate: (cache: IdCache) => void): void {
+  ensureCacheDir();
+  updateJsonFile<IdCache>(ID_CACHE_FILE, {}, mutate);
 }
 
 export function getCachedWorkspaceId(workspaceName: string): string | null {
@@ -53,9 +67,9 @@ export function getCachedWorkspaceId(workspaceName: string): string | null {
 }
 
 export function setCachedWorkspaceId(name: string, id: string): void {
-  const cache = loadIdCache();
-  cache.workspace = { name, id };
-  saveIdCache(cache);
+  updateIdCache((cache) => {
+    cache.workspace = { name, id };
+  });
 }
 
 export function getCachedPeerId(peerName: string): string | null {
@@ -64,10 +78,10 @@ export function getCachedPeerId(peerName: string): string | null {
 }
 
 export function setCachedPeerId(peerName: string, peerId: string): void {
-  const cache = loadIdCache();
-  if (!cache.peers) cache.peers = {};
-  cache.peers[peerName] = peerId;
-  saveIdCache(cache);
+  updateIdCache((cache) => {
+    if (!cache.peers) cache.peers = {};
+    cache.peers[peerName] = peerId;
+  });
 }
 
 export function getCachedSessionId(cwd: string): string | null {
@@ -76,10 +90,31 @@ export function getCachedSessionId(cwd: string): string | null {
 }
 
 export function setCachedSessionId(cwd: string, name: string, id: string, instanceId?: string): void {
-  const cache = loadIdCache();
-  if (!cache.sessions) cache.sessions = {};
-  cache.sessions[cwd] = { name, id, updatedAt: new Date().toISOString(), instanceId };
-  saveIdCache(cache);
+  updateIdCache((cache) => {
+    if (!cache.sessions) cache.sessions = {};
+    const now = new Date().toISOString();
+    const openInstances = { ...cache.sessions[cwd]?.openInstances };
+    if (instanceId) openInstances[instanceId] = now;
+    cache.sessions[cwd] = { name, id, updatedAt: now, instanceId, openInstances };
+  });
+}
+
+/** Called from session-end: this Claude session no longer counts as open in `cwd` */
+export function closeCachedInstance(cwd: string, instanceId: string | null | undefined): void {
+  if (!instanceId || !loadIdCache().sessions?.[cwd]?.openInstances?.[instanceId]) return;
+  updateIdCache((cache) => {
+    delete cache.sessions?.[cwd]?.openInstances?.[instanceId];
+  });
+}
+
+/** Claude sessions currently open in `cwd`, most recently started first */
+export function getOpenInstancesForCwd(cwd: string): string[] {
+  const open = loadIdCache().sessions?.[cwd]?.openInstances ?? {};
+  const cutoff = Date.now() - OPEN_INSTANCE_MAX_AGE_MS;
+  return Object.entries(open)
+    .filter(([, startedAt]) => Date.parse(startedAt) >= cutoff)
+    .sort((a, b) => b[1].localeCompare(a[1]))
+    .map(([id]) => id);
 }
 
 /** Find the most recently active CWD from cached sessions (fallback for MCP servers without project dir) */
@@ -102,9 +137,9 @@ export function getClaudeInstanceId(): string | null {
 }
 
 export function setClaudeInstanceId(instanceId: string): void {
-  const cache = loadIdCache();
-  cache.claudeInstanceId = instanceId;
-  saveIdCache(cache);
+  updateIdCache((cache) => {
+    cache.claudeInstanceId = instanceId;
+  });
 }
 
 /** Get the instance ID stored for a specific cwd (scoped, no cross-session collision) */
@@ -114,15 +149,44 @@ export function getInstanceIdForCwd(cwd: string): string | null {
 }
 
 // ============================================
-// Context Cache - user + claude context with TTL
+// Context Cache - user + claude context with TTL, per session
 // ============================================
 
-interface ContextCache {
-  userContext?: { data: any; fetchedAt: number };
+/**
+ * User context as cached for the user-prompt hook: peer.context() output from
+ * session start ("global"), or this session's search results ("session")
+ */
+export interface CachedUserContext {
+  representation?: string | null;
+  peerCard?: string[] | null;
+  source?: "session" | "global";
+}
+
+interface SessionContextEntry {
+  userContext?: { data: CachedUserContext; fetchedAt: number };
   claudeContext?: { data: any; fetchedAt: number };
   summaries?: { data: any; fetchedAt: number };
   messageCount?: number; // Track messages since last refresh
   lastRefreshMessageCount?: number; // Message count at last knowledge graph refresh
+  lastUsedAt: number; // For eviction
+}
+
+interface ContextCache {
+  sessions?: Record<string, SessionContextEntry>; // cache key -> context
+}
+
+// Keep the cache bounded: drop the least recently used entries beyond this
+// count, and any entry untouched for longer than the max age.
+const MAX_CONTEXT_SESSIONS = 20;
+const CONTEXT_SESSION_MAX_AGE_MS = 7 * 24 * 60 * 60 * 1000;
+
+/**
+ * Key for the per-session context cache. Includes the Claude instance ID when
+ * known, so two windows sharing a Honcho session still keep separate message
+ * counters and never reset each other's refresh threshold.
+ */
+export function getContextCacheKey(sessionName: string, instanceId?: string | null): string {
+  return instanceId ? `${sessionName}#${instanceId}` : sessionName;
 }
 
 // These are now configurable via config.json, with defaults in getContextRefreshConfig()
@@ -138,165 +202,120 @@ function getMessageRefreshThreshold(): number {
 
 export function loadContextCache(): ContextCache {
   ensureCacheDir();
-  if (!existsSync(CONTEXT_CACHE_FILE)) {
-    return {};
-  }
-  try {
-    return JSON.parse(readFileSync(CONTEXT_CACHE_FILE, "utf-8"));
-  } catch {
-    return {};
-  }
+  const cache = readJsonFile<any>(CONTEXT_CACHE_FILE, {});
+  // Pre-per-session caches stored one global context — discard it rather
+  // than serve one repo's conclusions in another
+  return cache && typeof cache.sessions === "object" ? { sessions: cache.sessions } : {};
+}
+
+function evictContextSessions(sessions: Record<string, SessionContextEntry>): Record<string, SessionContextEntry> {
+  const cutoff = Date.now() - CONTEXT_SESSION_MAX_AGE_MS;
+  const kept = Object.entries(sessions)
+    .filter(([, entry]) => (entry.lastUsedAt ?? 0) >= cutoff)
+    .sort(([, a], [, b]) => b.lastUsedAt - a.lastUsedAt)
+    .slice(0, MAX_CONTEXT_SESSIONS);
+  return Object.fromEntries(kept);
 }
 
 export function saveContextCache(cache: ContextCache): void {
   ensureCacheDir();
-  writeFileSync(CONTEXT_CACHE_FILE, JSON.stringify(cache, null, 2));
+  const sessions = evictContextSessions(cache.sessions ?? {});
+  writeJsonFile(CONTEXT_CACHE_FILE, { sessions });
 }
 
-export function getCachedUserContext(): any | null {
-  const cache = loadContextCache();
-  if (cache.userContext && Date.now() - cache.userContext.fetchedAt < getContextTTL()) {
-    return cache.userContext.data;
-  }
-  return null;
+/** Locked read-modify-write of the whole context cache */
+function updateContextCache(mutate: (cache: ContextCache) => void): void {
+  withFileLock(CONTEXT_CACHE_FILE, () => {
+    const cache = loadContextCache();
+    mutate(cache);
+    saveContextCache(cache);
+  });
 }
 
-/** Return cached context even if expired (for timeout fallback) */
-export function getStaleCachedUserContext(): any | null {
-  const cache = loadContextCache();
-  return cache.userContext?.data ?? null;
+/** Read-modify-write a single session's entry */
+function updateSessionContext<T>(key: string, mutate: (entry: SessionContextEntry) => T): T {
+  let result!: T;
+  updateContextCache((cache) => {
+    if (!cache.sessions) cache.sessions = {};
+    const entry = cache.sessions[key] ?? { lastUsedAt: Date.now() };
+    result = mutate(entry);
+    entry.lastUsedAt = Date.now();
+    cache.sessions[key] = entry;
+  });
+  return result;
 }
 
-export function setCachedUserContext(data: any): void {
-  const cache = loadContextCache();
-  cache.userContext = { data, fetchedAt: Date.now() };
-  saveContextCache(cache);
+function getSessionContext(key: string): SessionContextEntry | null {
+  return loadContextCache().sessions?.[key] ?? null;
 }
 
-export function getCachedClaudeContext(): any | null {
-  const cache = loadContextCache();
-  if (cache.claudeContext && Date.now() - cache.claudeContext.fetchedAt < getContextTTL()) {
-    return cache.claudeContext.data;
+export function getCachedUserContext(key: string): CachedUserContext | null {
+  const entry = getSessionContext(key);
+  if (entry?.userContext && Date.now() - entry.userContext.fetchedAt < getContextTTL()) {
+    return entry.userContext.data;
   }
   return null;
 }
 
-export function setCachedClaudeContext(data: any): void {
-  const cache = loadContextCache();
-  cache.claudeContext = { data, fetchedAt: Date.now() };
-  saveContextCache(cache);
-}
-
-export function isContextCacheStale(): boolean {
-  const cache = loadContextCache();
-  if (!cache.userContext) return true;
-  return Date.now() - cache.userContext.fetchedAt >= getContextTTL();
+/** Return cached context even if expired (for timeout fallback) */
+export function getStaleCachedUserContext(key: string): CachedUserContext | null {
+  return getSessionContext(key)?.userContext?.data ?? null;
 }
 
-// Track message count for threshold-based refresh
-export function incrementMessageCount(): number {
-  const cache = loadContextCache();
-  cache.messageCount = (cache.messageCount || 0) + 1;
-  saveContextCache(cache);
-  return cache.messageCount;
+export function setCachedUserContext(key: string, data: CachedUserContext): void {
+  updateSessionContext(key, (entry) => {
+    entry.userContext = { data, fetchedAt: Date.now() };
+  });
 }
 
-export function shouldRefreshKnowledgeGraph(): boolean {
-  const cache = loadContextCache();
-  const currentCount = cache.messageCount || 0;
-  const lastRefresh = cache.lastRefreshMessageCount || 0;
-
-  // Refresh if we've sent threshold messages since last refresh
-  return (currentCount - lastRefresh) >= getMessageRefreshThreshold();
+export function getCachedClaudeContext(key: string): any | null {
+  const entry = getSessionContext(key);
+  if (entry?.claudeContext && Date.now() - entry.claudeContext.fetchedAt < getContextTTL()) {
+    return entry.claudeContext.data;
+  }
+  return null;
 }
 
-export function markKnowledgeGraphRefreshed(): void {
-  const cache = loadContextCache();
-  cache.lastRefreshMessageCount = cache.messageCount || 0;
-  saveContextCache(cache);
+export function setCachedClaudeContext(key: string, data: any): void {
+  updateSessionContext(key, (entry) => {
+    entry.claudeContext = { data, fetchedAt: Date.now() };
+  });
 }
 
-export function resetMessageCount(): void {
-  const cache = loadContextCache();
-  cache.messageCount = 0;
-  cache.lastRefreshMessageCount = 0;
-  saveContextCache(cache);
+export function isContextCacheStale(key: string): boolean {
+  const entry = getSessionContext(key);
+  if (!entry?.userContext) return true;
+  return Date.now() - entry.userContext.fetchedAt >= getContextTTL();
 }
 
-// ============================================
-// Message Queue - local file for reliability
-// ============================================
-
-interface QueuedMessage {
-  content: string;
-  peerId: string;
-  cwd: string;
-  timestamp: string;
-  uploaded?: boolean;
-  instanceId?: string; // Claude Code instance for parallel session support
+// Track message count for threshold-based refresh
+export function incrementMessageCount(key: string): number {
+  return updateSessionContext(key, (entry) => {
+    entry.messageCount = (entry.messageCount || 0) + 1;
+    return entry.messageCount;
+  });
 }
 
-export function queueMessage(content: string, peerId: string, cwd: string, instanceId?: string): void {
-  ensureCacheDir();
-  const message: QueuedMessage = {
-    content,
-    peerId,
-    cwd,
-    timestamp: new Date().toISOString(),
-    uploaded: false,
-    instanceId: instanceId || getClaudeInstanceId() || undefined,
-  };
-  appendFileSync(MESSAGE_QUEUE_FILE, JSON.stringify(message) + "\n");
-}
+export function shouldRefreshKnowledgeGraph(key: string): boolean {
+  const entry = getSessionContext(key);
+  const currentCount = entry?.messageCount || 0;
+  const lastRefresh = entry?.lastRefreshMessageCount || 0;
 
-export function getQueuedMessages(forCwd?: string): QueuedMessage[] {
-  ensureCacheDir();
-  if (!existsSync(MESSAGE_QUEUE_FILE)) {
-    return [];
-  }
-  try {
-    const content = readFileSync(MESSAGE_QUEUE_FILE, "utf-8");
-    const lines = content.split("\n").filter((line) => line.trim());
-    const messages = lines.map((line) => JSON.parse(line)).filter((msg) => !msg.uploaded);
-    // Filter by cwd if specified
-    if (forCwd) {
-      return messages.filter((msg) => msg.cwd === forCwd);
-    }
-    return messages;
-  } catch {
-    return [];
-  }
+  // Refresh if we've sent threshold messages since last refresh
+  return (currentCount - lastRefresh) >= getMessageRefreshThreshold();
 }
 
-export function clearMessageQueue(): void {
-  ensureCacheDir();
-  writeFileSync(MESSAGE_QUEUE_FILE, "");
+export function markKnowledgeGraphRefreshed(key: string): void {
+  updateSessionContext(key, (entry) => {
+    entry.lastRefreshMessageCount = entry.messageCount || 0;
+  });
 }
 
-export function markMessagesUploaded(forCwd?: string): void {
-  if (!forCwd) {
-    // Clear all
-    clearMessageQueue();
-    return;
-  }
-  // Only remove messages for the specified cwd, keep others
-  ensureCacheDir();
-  if (!existsSync(MESSAGE_QUEUE_FILE)) return;
-  try {
-    const content = readFileSync(MESSAGE_QUEUE_FILE, "utf-8");
-    const lines = content.split("\n").filter((line) => line.trim());
-    const remaining = lines.filter((line) => {
-      try {
-        const msg = JSON.parse(line);
-        return msg.cwd !== forCwd;
-      } catch {
-        return false;
-      }
-    });
-    writeFileSync(MESSAGE_QUEUE_FILE, remaining.join("\n") + (remaining.length ? "\n" : ""));
-  } catch {
-    // ignore
-  }
+export function resetMessageCount(key: string): void {
+  updateSessionContext(key, (entry) => {
+    entry.messageCount = 0;
+    entry.lastRefreshMessageCount = 0;
+  });
 }
 
 // ============================================
@@ -309,19 +328,12 @@ export function getClaudeContextPath(): string {
 
 export function loadClaudeLocalContext(): string {
   ensureCacheDir();
-  if (!existsSync(CLAUDE_CONTEXT_FILE)) {
-    return "";
-  }
-  try {
-    return readFileSync(CLAUDE_CONTEXT_FILE, "utf-8");
-  } catch {
-    return "";
-  }
+  return readTextFile(CLAUDE_CONTEXT_FILE);
 }
 
 export function saveClaudeLocalContext(content: string): void {
   ensureCacheDir();
-  writeFileSync(CLAUDE_CONTEXT_FILE, content);
+  withFileLock(CLAUDE_CONTEXT_FILE, () => writeFileAtomic(CLAUDE_CONTEXT_FILE, content));
 }
 
 export function appendClaudeWork(workDescription: string): void {
@@ -329,26 +341,28 @@ export function appendClaudeWork(workDescription: string): void {
   const timestamp = new Date().toISOString();
   const entry = `\n- [${timestamp}] ${workDescription}`;
 
-  let existing = loadClaudeLocalContext();
-  if (!existing) {
-    existing = `# CLAUDE Work Context\n\nAuto-generated log of CLAUDE's recent work.\n\n## Recent Activity\n`;
-  }
-
   // Keep only last N entries to prevent file from growing too large
   let maxEntries = getLocalContextConfig().maxEntries;
   if (!maxEntries) {
     maxEntries = 10;
   }
-  const lines = existing.split("\n");
-  const activityStart = lines.findIndex((l) => l.includes("## Recent Activity"));
-  if (activityStart !== -1) {
-    const header = lines.slice(0, activityStart + 1);
-    const activities = lines.slice(activityStart + 1).filter((l) => l.trim());
-    const recentActivities = activities.slice(-(maxEntries - 1)); // Keep last N-1, add 1 new
-    existing = [...header, ...recentActivities].join("\n");
-  }
 
-  saveClaudeLocalContext(existing + entry);
+  updateTextFile(CLAUDE_CONTEXT_FILE, (existing) => {
+    if (!existing) {
+      existing = `# CLAUDE Work Context\n\nAuto-generated log of CLAUDE's recent work.\n\n## Recent Activity\n`;
+    }
+
+    const lines = existing.split("\n");
+    const activityStart = lines.findIndex((l) => l.includes("## Recent Activity"));
+    if (activityStart !== -1) {
+      const header = lines.slice(0, activityStart + 1);
+      const activities = lines.slice(activityStart + 1).filter((l) => l.trim());
+      const recentActivities = activities.slice(-(maxEntries - 1)); // Keep last N-1, add 1 new
+      existing = [...header, ...recentActivities].join("\n");
+    }
+
+    return existing + entry;
+  });
 }
 
 export function generateClaudeSummary(
@@ -416,19 +430,12 @@ interface GitStateCache {
 
 export function loadGitStateCache(): GitStateCache {
   ensureCacheDir();
-  if (!existsSync(GIT_STATE_FILE)) {
-    return {};
-  }
-  try {
-    return JSON.parse(readFileSync(GIT_STATE_FILE, "utf-8"));
-  } catch {
-    return {};
-  }
+  return readJsonFile<GitStateCache>(GIT_STATE_FILE, {});
 }
 
 export function saveGitStateCache(cache: GitStateCache): void {
   ensureCacheDir();
-  writeFileSync(GIT_STATE_FILE, JSON.stringify(cache, null, 2));
+  writeJsonFile(GIT_STATE_FILE, cache);
 }
 
 export function getCachedGitState(cwd: string): GitState | null {
@@ -437,9 +444,10 @@ export function getCachedGitState(cwd: string): GitState | null {
 }
 
 export function setCachedGitState(cwd: string, state: GitState): void {
-  const cache = loadGitStateCache();
-  cache[cwd] = state;
-  saveGitStateCache(cache);
+  ensureCacheDir();
+  updateJsonFile<GitStateCache>(GIT_STATE_FILE, {}, (cache) => {
+    cache[cwd] = state;
+  });
 }
 
 export interface GitFeatureContext {
@@ -499,35 +507,397 @@ export function detectGitChanges(previous: GitState | null, current: GitState):
   return changes;
 }
 
+// ============================================
+// Incognito - per-session "off the record" mode, keyed by Claude instance id
+// ============================================
+
+const INCOGNITO_FILE = join(CACHE_DIR, "incognito.json");
+// Entries whose session-end hook never ran (crash, kill) are dropped after this
+const INCOGNITO_MAX_AGE_MS = 7 * 24 * 60 * 60 * 1000;
+
+export interface IncognitoEntry {
+  since: string;
+  cwd?: string;
+}
+
+interface IncognitoState {
+  [instanceId: string]: IncognitoEntry;
+}
+
+export function getIncognito(instanceId: string | null | undefined): IncognitoEntry | null {
+  if (!instanceId) return null;
+  const state = readJsonFile<IncognitoState>(INCOGNITO_FILE, {});
+  return state[instanceId] || null;
+}
+
+export function isIncognito(instanceId: string | null | undefined): boolean {
+  return getIncognito(instanceId) !== null;
+}
+
+export function setIncognito(instanceId: string, enabled: boolean, cwd?: string): void {
+  ensureCacheDir();
+  let ended: IncognitoEntry | undefined;
+  updateJsonFile<IncognitoState>(INCOGNITO_FILE, {}, (state) => {
+    const cutoff = Date.now() - INCOGNITO_MAX_AGE_MS;
+    for (const [id, entry] of Object.entries(state)) {
+      if (new Date(entry.since).getTime() < cutoff) delete state[id];
+    }
+    if (enabled) {
+      state[instanceId] = state[instanceId] ?? { since: new Date().toISOString(), cwd };
+    } else {
+      ended = state[instanceId];
+      delete state[instanceId];
+    }
+  });
+  if (ended) {
+    recordIncognitoPeriod(instanceId, { since: ended.since, until: new Date().toISOString() });
+  }
+}
+
+export function clearIncognito(instanceId: string | null | undefined): void {
+  if (!instanceId || !isIncognito(instanceId)) return;
+  setIncognito(instanceId, false);
+}
+
+// Past incognito periods per session. Turning incognito off doesn't make the
+// turns written meanwhile fair game: session-end's catch-up sweeps skip them.
+const INCOGNITO_PERIODS_FILE = join(CACHE_DIR, "incognito-periods.json");
+
+export interface IncognitoPeriod {
+  since: string;
+  /** Absent while the period is still running */
+  until?: string;
+}
+
+interface IncognitoPeriodState {
+  [instanceId: string]: { periods: IncognitoPeriod[]; updatedAt: number };
+}
+
+function recordIncognitoPeriod(instanceId: string, period: IncognitoPeriod): void {
+  updateJsonFile<IncognitoPeriodState>(INCOGNITO_PERIODS_FILE, {}, (state) => {
+    const cutoff = Date.now() - INCOGNITO_MAX_AGE_MS;
+    for (const [id, entry] of Object.entries(state)) {
+      if (entry.updatedAt < cutoff) delete state[id];
+    }
+    const periods = state[instanceId]?.periods ?? [];
+    state[instanceId] = { periods: [...periods, period], updatedAt: Date.now() };
+  }, { pretty: false });
+}
+
+/** Every period this session spent incognito, including a running one */
+export function getIncognitoPeriods(instanceId: string | null | undefined): IncognitoPeriod[] {
+  if (!instanceId) return [];
+  const past = readJsonFile<IncognitoPeriodState>(INCOGNITO_PERIODS_FILE, {})[instanceId]?.periods ?? [];
+  const current = getIncognito(instanceId);
+  return current ? [...past, { since: current.since }] : past;
+}
+
+/**
+ * Whether something written at `timestamp` falls in one of `periods`. With
+ * any periods on record, an undated entry counts as incognito: it can't be
+ * shown to be outside them.
+ */
+export function wasIncognitoAt(periods: IncognitoPeriod[], timestamp: string | undefined): boolean {
+  if (periods.length === 0) return false;
+  const time = timestamp ? Date.parse(timestamp) : NaN;
+  if (Number.isNaN(time)) return true;
+  return periods.some((p) => time >= Date.parse(p.since) && (!p.until || time <= Date.parse(p.until)));
+}
+
+// ============================================
+// Upload Ledger - transcript entries already queued, per session
+// ============================================
+
+const UPLOAD_LEDGER_FILE = join(CACHE_DIR, "upload-ledger.json");
+const MAX_LEDGER_ENTRIES = 2000;
+const MAX_LEDGER_SESSIONS = 50;
+const LEDGER_MAX_AGE_MS = 7 * 24 * 60 * 60 * 1000;
+
+interface UploadLedger {
+  [key: string]: { entries: string[]; updatedAt: number };
+}
+
+/**
+ * Ledger keys for one transcript entry: its uuid (when the transcript has one)
+ * and a hash of its text. Hooks that see the same entry through different
+ * parsing paths still agree on at least one key.
+ */
+export function getTranscriptEntryKeys(text: string, uuid?: string): string[] {
+  const keys = [`sha:${createHash("sha256").update(text.trim()).digest("hex").slice(0, 16)}`];
+  if (uuid) keys.unshift(`uuid:${uuid}`);
+  return keys;
+}
+
+export function getUploadedEntryKeys(key: string): Set<string> {
+  const ledger = readJsonFile<UploadLedger>(UPLOAD_LEDGER_FILE, {});
+  return new Set(ledger[key]?.entries ?? []);
+}
+
+export function isEntryUploaded(key: string, entryKeys: string[]): boolean {
+  const uploaded = getUploadedEntryKeys(key);
+  return entryKeys.some((k) => uploaded.has(k));
+}
+
+/** Record transcript entries as queued for upload, so later hooks skip them */
+export function recordUploadedEntries(key: string, entryKeys: string[]): void {
+  if (entryKeys.length === 0) return;
+  ensureCacheDir();
+  updateJsonFile<UploadLedger>(UPLOAD_LEDGER_FILE, {}, (ledger) => {
+    const entries = new Set(ledger[key]?.entries ?? []);
+    for (const k of entryKeys) entries.add(k);
+    ledger[key] = { entries: [...entries].slice(-MAX_LEDGER_ENTRIES), updatedAt: Date.now() };
+
+    const cutoff = Date.now() - LEDGER_MAX_AGE_MS;
+    const kept = Object.entries(ledger)
+      .filter(([, session]) => session.updatedAt >= cutoff)
+      .sort(([, a], [, b]) => b.updatedAt - a.updatedAt)
+      .slice(0, MAX_LEDGER_SESSIONS);
+    return Object.fromEntries(kept);
+  }, { pretty: false });
+}
+
+// ============================================
+// Startup Sections - last memory sections shown at session start, per directory
+// ============================================
+
+const STARTUP_SECTIONS_FILE = join(CACHE_DIR, "startup-sections.json");
+const MAX_STARTUP_DIRECTORIES = 20;
+const STARTUP_SECTIONS_MAX_AGE_MS = 7 * 24 * 60 * 60 * 1000;
+
+export interface CachedStartupSection {
+  title: string;
+  body: string;
+  priority?: number;
+  minTokens?: number;
+  fetchedAt: number;
+}
+
+interface StartupSectionsCache {
+  [cwd: string]: {
+    workspace: string;
+    sections: Record<string, CachedStartupSection>;
+    updatedAt: number;
+    prefetchedAt?: number; // Last prefetch started for this directory
+  };
+}
+
+/** Sections from earlier session starts in this directory, by section id */
+export function getCachedStartupSections(cwd: string, workspace: string): Record<string, CachedStartupSection> {
+  const entry = readJsonFile<StartupSectionsCache>(STARTUP_SECTIONS_FILE, {})[cwd];
+  return entry?.workspace === workspace ? entry.sections : {};
+}
+
+/** Store freshly fetched sections; sections not passed keep their older copy */
+export function setCachedStartupSections(
+  cwd: string,
+  workspace: string,
+  sections: Array<Omit<CachedStartupSection, "fetchedAt"> & { id: string }>
+): void {
+  if (sections.length === 0) return;
+  ensureCacheDir();
+  updateJsonFile<StartupSectionsCache>(STARTUP_SECTIONS_FILE, {}, (cache) => {
+    const existing = cache[cwd]?.workspace === workspace ? cache[cwd].sections : {};
+    for (const { id, title, body, priority, minTokens } of sections) {
+      existing[id] = { title, body, priority, minTokens, fetchedAt: Date.now() };
+    }
+    cache[cwd] = { ...cache[cwd], workspace, sections: existing, updatedAt: Date.now() };
+
+    const cutoff = Date.now() - STARTUP_SECTIONS_MAX_AGE_MS;
+    const kept = Object.entries(cache)
+      .filter(([, dir]) => dir.updatedAt >= cutoff)
+      .sort(([, a], [, b]) => b.updatedAt - a.updatedAt)
+      .slice(0, MAX_STARTUP_DIRECTORIES);
+    return Object.fromEntries(kept);
+  });
+}
+
+/** Record that a prefetch for this directory is starting, unless one started within minIntervalMs */
+export function claimStartupPrefetch(cwd: string, workspace: string, minIntervalMs: number): boolean {
+  let claimed = false;
+  ensureCacheDir();
+  updateJsonFile<StartupSectionsCache>(STARTUP_SECTIONS_FILE, {}, (cache) => {
+    const entry = cache[cwd]?.workspace === workspace
+      ? cache[cwd]
+      : { workspace, sections: {}, updatedAt: Date.now() };
+    if (entry.prefetchedAt && Date.now() - entry.prefetchedAt < minIntervalMs) return;
+    entry.prefetchedAt = Date.now();
+    cache[cwd] = entry;
+    claimed = true;
+  });
+  return claimed;
+}
+
+// ============================================
+// Repo Vocabulary - terms from tracked files and commits, per directory
+// ============================================
+
+const VOCABULARY_FILE = join(CACHE_DIR, "vocabulary.json");
+const MAX_VOCABULARY_DIRECTORIES = 20;
+
+interface VocabularyCache {
+  [cwd: string]: { head: string; terms: string[]; updatedAt: number };
+}
+
+/** Vocabulary built at this HEAD, or null if there is none yet */
+export function getCachedRepoVocabulary(cwd: string, head: string): string[] | null {
+  const entry = readJsonFile<VocabularyCache>(VOCABULARY_FILE, {})[cwd];
+  return entry?.head === head ? entry.terms : null;
+}
+
+export function setCachedRepoVocabulary(cwd: string, head: string, terms: string[]): void {
+  ensureCacheDir();
+  updateJsonFile<VocabularyCache>(VOCABULARY_FILE, {}, (cache) => {
+    cache[cwd] = { head, terms, updatedAt: Date.now() };
+    const kept = Object.entries(cache)
+      .sort(([, a], [, b]) => b.updatedAt - a.updatedAt)
+      .slice(0, MAX_VOCABULARY_DIRECTORIES);
+    return Object.fromEntries(kept);
+  }, { pretty: false });
+}
+
+// ============================================
+// Injection Ledger - memory items already shown to the model, per session
+// ============================================
+
+const INJECTION_LEDGER_FILE = join(CACHE_DIR, "injected.json");
+const MAX_INJECTED_ITEMS = 500;
+const MAX_INJECTION_SESSIONS = 50;
+const INJECTION_MAX_AGE_MS = 7 * 24 * 60 * 60 * 1000;
+
+interface InjectionLedger {
+  [key: string]: {
+    items: string[];
+    /** Set at compaction: the next prompt injects everything relevant again */
+    refreshPending?: boolean;
+    updatedAt: number;
+  };
+}
+
+/** Ledger key for one conclusion or profile line, ignoring case and spacing */
+export function getInjectedItemKey(text: string): string {
+  const normalized = text.toLowerCase().replace(/\s+/g, " ").trim();
+  return createHash("sha256").update(normalized).digest("hex").slice(0, 16);
+}
+
+export function getInjectedItems(key: string): { items: Set<string>; refreshPending: boolean } {
+  const entry = readJsonFile<InjectionLedger>(INJECTION_LEDGER_FILE, {})[key];
+  return { items: new Set(entry?.items ?? []), refreshPending: entry?.refreshPending === true };
+}
+
+function updateInjectionLedger(key: string, mutate: (entry: InjectionLedger[string]) => void): void {
+  ensureCacheDir();
+  updateJsonFile<InjectionLedger>(INJECTION_LEDGER_FILE, {}, (ledger) => {
+    const entry = ledger[key] ?? { items: [], updatedAt: 0 };
+    mutate(entry);
+    entry.items = entry.items.slice(-MAX_INJECTED_ITEMS);
+    entry.updatedAt = Date.now();
+    ledger[key] = entry;
+
+    const cutoff = Date.now() - INJECTION_MAX_AGE_MS;
+    const kept = Object.entries(ledger)
+      .filter(([, session]) => session.updatedAt >= cutoff)
+      .sort(([, a], [, b]) => b.updatedAt - a.updatedAt)
+      .slice(0, MAX_INJECTION_SESSIONS);
+    return Object.fromEntries(kept);
+  }, { pretty: false });
+}
+
+/** Record items injected on a prompt; this also completes a pending refresh */
+export function recordInjectedItems(key: string, itemKeys: string[]): void {
+  updateInjectionLedger(key, (entry) => {
+    entry.items = [...new Set([...entry.items, ...itemKeys])];
+    entry.refreshPending = undefined;
+  });
+}
+
+/** Start over from what session start just injected (new, resumed, cleared or compacted conversation) */
+export function resetInjectedItems(key: string, itemKeys: string[]): void {
+  updateInjectionLedger(key, (entry) => {
+    entry.items = [...new Set(itemKeys)];
+  });
+}
+
+export function requestInjectionRefresh(key: string): void {
+  updateInjectionLedger(key, (entry) => {
+    entry.refreshPending = true;
+  });
+}
+
+// ============================================
+// Prompt Window - recent prompts per session, blended into the search query
+// ============================================
+
+const PROMPT_WINDOW_FILE = join(CACHE_DIR, "prompt-window.json");
+const MAX_WINDOW_SESSIONS = 50;
+const WINDOW_MAX_AGE_MS = 7 * 24 * 60 * 60 * 1000;
+// Only the start of a long prompt is kept; the query builder wouldn't use more
+const MAX_WINDOW_PROMPT_CHARS = 2000;
+
+interface PromptWindow {
+  [key: string]: { prompts: string[]; updatedAt: number };
+}
+
+/** Previous prompts for this session, most recent first */
+export function getRecentPrompts(key: string): string[] {
+  const window = readJsonFile<PromptWindow>(PROMPT_WINDOW_FILE, {});
+  return [...(window[key]?.prompts ?? [])].reverse();
+}
+
+/** Add a prompt to the session's window, keeping the last `size` */
+export function pushRecentPrompt(key: string, prompt: string, size: number): void {
+  ensureCacheDir();
+  updateJsonFile<PromptWindow>(PROMPT_WINDOW_FILE, {}, (window) => {
+    const prompts = [...(window[key]?.prompts ?? []), prompt.trim().slice(0, MAX_WINDOW_PROMPT_CHARS)];
+    window[key] = { prompts: prompts.slice(-size), updatedAt: Date.now() };
+
+    const cutoff = Date.now() - WINDOW_MAX_AGE_MS;
+    const kept = Object.entries(window)
+      .filter(([, session]) => session.updatedAt >= cutoff)
+      .sort(([, a], [, b]) => b.updatedAt - a.updatedAt)
+      .slice(0, MAX_WINDOW_SESSIONS);
+    return Object.fromEntries(kept);
+  }, { pretty: false });
+}
+
 // ============================================
 // Message Chunking - split large messages for API limits
 // ============================================
 
+// The API limit is on characters; the token cap keeps chunks a sensible size
+// for dense text (code, JSON, CJK) that packs many tokens into few characters
 const MAX_MESSAGE_SIZE = 24000;
+const MAX_MESSAGE_TOKENS = 6000;
 
 export function chunkContent(content: string, maxSize: number = MAX_MESSAGE_SIZE): string[] {
-  if (content.length <= maxSize) {
+  if (content.length <= maxSize && estimateTokens(content) <= MAX_MESSAGE_TOKENS) {
     return [content];
   }
 
+  // Leave room for the "[Part i/n] " label so labelled chunks stay within both caps
+  const label = "[Part 000/000] ";
+  const maxChars = Math.max(1, maxSize - label.length);
+  const maxTokens = Math.max(1, MAX_MESSAGE_TOKENS - estimateTokens(label));
+
   const chunks: string[] = [];
   let remaining = content;
 
   while (remaining.length > 0) {
-    if (remaining.length <= maxSize) {
+    // At least one character, so a tokenizer that can't fit any still makes progress
+    const limit = Math.max(1, Math.min(maxChars, tokenPrefixLength(remaining, maxTokens)));
+    if (remaining.length <= limit) {
       chunks.push(remaining);
       break;
     }
 
     // Try to split at a newline boundary
-    let splitIndex = remaining.lastIndexOf('\n', maxSize);
-    if (splitIndex <= 0 || splitIndex < maxSize * 0.25) {
+    let splitIndex = remaining.lastIndexOf('\n', limit);
+    if (splitIndex <= 0 || splitIndex < limit * 0.25) {
       // No good newline boundary, split at space
-      splitIndex = remaining.lastIndexOf(' ', maxSize);
+      splitIndex = remaining.lastIndexOf(' ', limit);
     }
-    if (splitIndex <= 0 || splitIndex < maxSize * 0.25) {
+    if (splitIndex <= 0 || splitIndex < limit * 0.25) {
       // No good boundary, hard split
-      splitIndex = maxSize;
+      splitIndex = limit;
     }
 
     chunks.push(remaining.slice(0, splitIndex));
@@ -547,36 +917,46 @@ export function chunkContent(content: string, maxSize: number = MAX_MESSAGE_SIZE
 
 export function clearAllCaches(): void {
   ensureCacheDir();
-  if (existsSync(ID_CACHE_FILE)) writeFileSync(ID_CACHE_FILE, "{}");
-  if (existsSync(CONTEXT_CACHE_FILE)) writeFileSync(CONTEXT_CACHE_FILE, "{}");
-  if (existsSync(MESSAGE_QUEUE_FILE)) writeFileSync(MESSAGE_QUEUE_FILE, "");
-  if (existsSync(GIT_STATE_FILE)) writeFileSync(GIT_STATE_FILE, "{}");
+  for (const file of [ID_CACHE_FILE, CONTEXT_CACHE_FILE, GIT_STATE_FILE, STARTUP_SECTIONS_FILE, VOCABULARY_FILE, PROMPT_WINDOW_FILE, INJECTION_LEDGER_FILE]) {
+    if (existsSync(file)) withFileLock(file, () => writeJsonFile(file, {}));
+  }
   // Don't clear claude-context.md - that's valuable history
+  // Don't clear the outbox either - it holds messages not yet uploaded
 }
 
 /** Clear only the ID cache (workspace, peer, session IDs) */
 export function clearIdCache(): void {
   ensureCacheDir();
-  writeFileSync(ID_CACHE_FILE, "{}");
+  withFileLock(ID_CACHE_FILE, () => writeJsonFile(ID_CACHE_FILE, {}));
 }
 
 /** Clear only peer IDs from the ID cache */
 export function clearPeerCache(): void {
-  const cache = loadIdCache();
-  delete cache.peers;
-  saveIdCache(cache);
+  updateIdCache((cache) => {
+    delete cache.peers;
+  });
 }
 
-/** Clear only userContext from the context cache */
+/** Clear only userContext from the context cache (all sessions) */
 export function clearUserContextOnly(): void {
-  const cache = loadContextCache();
-  delete cache.userContext;
-  saveContextCache(cache);
+  updateContextCache((cache) => {
+    for (const entry of Object.values(cache.sessions ?? {})) {
+      delete entry.userContext;
+    }
+  });
 }
 
-/** Clear only claudeContext from the context cache */
+/** Clear only claudeContext from the context cache (all sessions) */
 export function clearClaudeContextOnly(): void {
-  const cache = loadContextCache();
-  delete cache.claudeContext;
-  saveContextCache(cache);
+  updateContextCache((cache) => {
+    for (const entry of Object.values(cache.sessions ?? {})) {
+      delete entry.claudeContext;
+    }
+  });
+}
+
+/** Clear prefetched session-start sections (all directories) */
+export function clearStartupSections(): void {
+  ensureCacheDir();
+  withFileLock(STARTUP_SECTIONS_FILE, () => writeJsonFile(STARTUP_SECTIONS_FILE, {}));
 }
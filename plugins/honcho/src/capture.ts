@@ -0,0 +1,204 @@
+/**
+ * PostToolUse capture rules
+ *
+ * Decides which tool calls are recorded and how they are summarized. The
+ * built-in rules reproduce the original behavior (file edits, non-trivial
+ * Bash, agent tasks); `captureRules` in config are appended after them and,
+ * like path rules, the last matching rule wins:
+ *
+ *   { "tool": "mcp__github__*" }                                  // record GitHub MCP calls
+ *   { "tool": "Bash", "action": "ignore", "match": "^npm run lint" }
+ *   { "tool": "Bash", "match": "^terraform ", "summary": "Terraform: {command} ({status})" }
+ *
+ * Claude Code only delivers tools named in the hooks.json PostToolUse
+ * matcher, so the matcher is generated from the same rules
+ * (scripts/sync-hooks-matcher.ts) and checked by get_config.
+ */
+
+import { basename, join } from "path";
+import type { CaptureRule, HonchoCLAUDEConfig } from "./config.js";
+import { readJsonFile } from "./storage.js";
+
+export const BUILTIN_CAPTURE_RULES: CaptureRule[] = [
+  { tool: "Write" },
+  { tool: "Edit" },
+  { tool: "NotebookEdit" },
+  { tool: "Bash" },
+  { tool: "Task" },
+  // Read-only or trivial commands
+  { tool: "Bash", action: "ignore", match: "^(?:ls|pwd|echo|cat|head|tail|which|type|git status|git log|git diff)" },
+];
+
+export function getCaptureRules(config: HonchoCLAUDEConfig | null): CaptureRule[] {
+  return [...BUILTIN_CAPTURE_RULES, ...(config?.captureRules ?? [])];
+}
+
+// ============================================
+// Matching
+// ============================================
+
+/** Glob over tool names as regex source: `*` is any run of characters, `?` one character */
+function toolGlobSource(glob: string): string {
+  return glob.replace(/[.+^${}()|[\]\\]/g, "\\$&").replace(/\*/g, ".*").replace(/\?/g, ".");
+}
+
+function testPattern(pattern: string, subject: string): boolean {
+  try {
+    return new RegExp(pattern).test(subject);
+  } catch {
+    // An invalid regex never matches (set_config rejects them up front)
+    return false;
+  }
+}
+
+/** The input a rule's `match` / `exclude` regexes are tested against */
+export function getToolSubject(toolName: string, toolInput: Record<string, unknown>): string {
+  if (toolName === "Bash") return String(toolInput.command ?? "").trim();
+  if (toolName === "Task") return String(toolInput.description ?? "");
+  const path = toolInput.file_path ?? toolInput.notebook_path ?? toolInput.path;
+  if (typeof path === "string") return path;
+  return JSON.stringify(toolInput);
+}
+
+function ruleMatches(rule: CaptureRule, toolName: string, subject: string): boolean {
+  if (!rule?.tool || !new RegExp(`^${toolGlobSource(rule.tool)}$`).test(toolName)) return false;
+  if (rule.match && !testPattern(rule.match, subject)) return false;
+  if (rule.exclude && testPattern(rule.exclude, subject)) return false;
+  return true;
+}
+
+/**
+ * The rule that decides whether a call is recorded: the last one matching it.
+ * Returns null when no rule matches or the deciding rule is an "ignore".
+ */
+export function matchCaptureRules(
+  toolName: string,
+  toolInput: Record<string, unknown>,
+  rules: CaptureRule[]
+): CaptureRule | null {
+  const subject = getToolSubject(toolName, toolInput);
+  let decided: CaptureRule | null = null;
+  for (const rule of rules) {
+    if (ruleMatches(rule, toolName, subject)) decided = rule;
+  }
+  return decided && decided.action !== "ignore" ? decided : null;
+}
+
+// ============================================
+// Summary templates
+// ============================================
+
+/**
+ * Fill a summary template. `{tool}`, `{status}` (success/failed) and `{file}`
+ * (base name of the file path) are built in; any other `{name}` is read
+ * from tool_input, with nested fields as `{a.b}`. Values are cut to 100 chars.
+ */
+export function renderSummaryTemplate(
+  template: string,
+  toolName: string,
+  toolInput: Record<string, unknown>,
+  success: boolean
+): string {
+  const filePath = toolInput.file_path ?? toolInput.notebook_path ?? toolInput.path;
+  const builtins: Record<string, string> = {
+    tool: toolName,
+    status: success ? "success" : "failed",
+    file: typeof filePath === "string" ? basename(filePath) : "",
+  };
+
+  return template.replace(/\{([\w.]+)\}/g, (_, key: string) => {
+    let value: unknown = key in builtins ? builtins[key] : toolInput;
+    if (!(key in builtins)) {
+      for (const part of key.split(".")) {
+        value = value && typeof value === "object" ? (value as Record<string, unknown>)[part] : undefined;
+      }
+    }
+    if (value === undefined || value === null) return "";
+    const text = (typeof value === "string" ? value : JSON.stringify(value)).replace(/\s+/g, " ").trim();
+    return text.length > 100 ? text.slice(0, 97) + "..." : text;
+  });
+}
+
+// ============================================
+// hooks.json matcher
+// ============================================
+
+/**
+ * PostToolUse matcher (a regex over tool names) delivering every tool a
+ * capture rule could record. Only "capture" rules contribute; an "ignore"
+ * rule never needs the hook to fire.
+ */
+export function buildHooksMatcher(rules: CaptureRule[]): string {
+  const parts: string[] = [];
+  for (const rule of rules) {
+    if (!rule?.tool || rule.action === "ignore") continue;
+    const part = toolGlobSource(rule.tool);
+    if (!parts.includes(part)) parts.push(part);
+  }
+  return parts.join("|");
+}
+
+/** The parts of a hooks.json file the matcher tools read and write */
+export interface HooksFile {
+  hooks?: {
+    PostToolUse?: Array<{ matcher?: string; hooks?: unknown[] }>;
+    [event: string]: unknown;
+  };
+}
+
+/** The plugin's own hooks.json */
+export const HOOKS_FILE = join(import.meta.dir, "..", "hooks", "hooks.json");
+
+/** The PostToolUse matcher in a hooks.json file (null if it has none or can't be read) */
+export function readHooksMatcher(path: string = HOOKS_FILE): string | null {
+  const hooks = readJsonFile<HooksFile | null>(path, null);
+  const entry = hooks?.hooks?.PostToolUse?.[0];
+  return typeof entry?.matcher === "string" ? entry.matcher : null;
+}
+
+/**
+ * Capture rule tool globs that a hooks.json matcher would not deliver. Globs
+ * are checked with a sample name (`*` filled in), which is exact for plain
+ * names and good enough for prefixes like `mcp__github__*`.
+ */
+export function findUncoveredTools(matcher: string, rules: CaptureRule[]): string[] {
+  if (!matcher || matcher === "*") return [];
+  let pattern: RegExp;
+  try {
+    pattern = new RegExp(`^(?:${matcher})$`);
+  } catch {
+    return rules.filter((r) => r?.tool && r.action !== "ignore").map((r) => r.tool);
+  }
+  const uncovered: string[] = [];
+  for (const rule of rules) {
+    if (!rule?.tool || rule.action === "ignore") continue;
+    const sample = rule.tool.replace(/\*/g, "sample").replace(/\?/g, "x");
+    if (!pattern.test(sample) && !uncovered.includes(rule.tool)) uncovered.push(rule.tool);
+  }
+  return uncovered;
+}
+
+/** Problems with a list of capture rules, for set_config validation */
+export function validateCaptureRules(rules: unknown): string | null {
+  if (!Array.isArray(rules)) return "captureRules must be an array";
+  for (const [i, rule] of rules.entries()) {
+    if (!rule || typeof rule !== "object" || typeof rule.tool !== "string" || !rule.tool) {
+      return `captureRules[${i}] needs a "tool" name or glob`;
+    }
+    if (rule.action !== undefined && rule.action !== "capture" && rule.action !== "ignore") {
+      return `captureRules[${i}].action must be "capture" or "ignore"`;
+    }
+    for (const key of ["match", "exclude"] as const) {
+      if (rule[key] === undefined) continue;
+      try {
+        new RegExp(rule[key]);
+      } catch {
+        return `captureRules[${i}].${key} is not a valid regex`;
+      }
+    }
+    if (rule.summary !== undefined && typeof rule.summary !== "string") {
+      return `captureRules[${i}].summary must be a string`;
+    }
+  }
+  return null;
+}
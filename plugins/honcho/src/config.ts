@@ -1,22 +1,39 @@
 import { homedir } from "os";
-import { join, basename } from "path";
-import { existsSync, mkdirSync, readFileSync, writeFileSync } from "fs";
+import { join, basename, dirname, resolve } from "path";
+import { existsSync, readFileSync } from "fs";
 import { captureGitState } from "./git.js";
 import { getInstanceIdForCwd, getClaudeInstanceId } from "./cache.js";
+import { readJsonFile, updateJsonFile } from "./storage.js";
 
 function sanitizeForSessionName(s: string): string {
   return s.toLowerCase().replace(/[^a-z0-9-_]/g, "-");
 }
 
 export interface MessageUploadConfig {
-  /** Truncate user messages to this many tokens (undefined = no limit) */
+  /** Truncate user messages to this many tokens (default: 3000, 0 = no limit) */
   maxUserTokens?: number;
-  /** Truncate assistant messages to this many tokens (undefined = no limit) */
+  /** Truncate assistant messages to this many tokens (default: 1500, 0 = no limit) */
   maxAssistantTokens?: number;
   /** Summarize assistant messages instead of sending full text (default: false) */
   summarizeAssistant?: boolean;
 }
 
+export interface ToolUploadConfig {
+  /** "batched" (default) leaves tool activity in the outbox until a flush point; "immediate" uploads every call */
+  flush?: "batched" | "immediate";
+  /** Flush from PostToolUse once this many messages are waiting (default: 20) */
+  maxPending?: number;
+  /** Flush from PostToolUse once the oldest waiting message is this old (default: 120) */
+  maxWaitSeconds?: number;
+}
+
+export interface ToolResultsConfig {
+  /** Upload a digest of failed tool calls: exit code, error lines, failing tests (default: false) */
+  captureFailures?: boolean;
+  /** Error lines kept per failure (default: 5) */
+  maxErrorLines?: number;
+}
+
 export interface ContextRefreshConfig {
   /** Refresh context every N messages (default: 30) */
   messageThreshold?: number;
@@ -24,6 +41,71 @@ export interface ContextRefreshConfig {
   ttlSeconds?: number;
   /** Skip dialectic chat() calls in user-prompt hook (default: false) */
   skipDialectic?: boolean;
+  /** Session start waits this long for Honcho, then uses cached sections (default: 3) */
+  startupDeadlineSeconds?: number;
+  /** Prefetch the next session start from Stop/SessionEnd: detached, inline or off (default: "detached") */
+  prefetch?: "detached" | "inline" | "off";
+  /** Only inject conclusions and profile lines not already shown in this session (default: true) */
+  skipInjected?: boolean;
+  /** After compaction, the next prompt injects everything relevant again (default: false) */
+  refreshAfterCompaction?: boolean;
+}
+
+export interface SearchQueryConfig {
+  /** Previous prompts per session blended into the search query (default: 3, 0 = current prompt only) */
+  windowSize?: number;
+  /** Weight of the previous prompt's terms, relative to the current prompt's (default: 0.5) */
+  recentWeight?: number;
+  /** Each older prompt is weighted this much of the one after it (default: 0.5) */
+  recentDecay?: number;
+}
+
+export interface RelevanceConfig {
+  /** Conclusions scoring below this are not injected on a prompt (default: 0.1, 0 = any term overlap) */
+  minScore?: number;
+  /** Most conclusions injected per prompt (default: 5) */
+  maxConclusions?: number;
+  /** A conclusion's recency halves every N days (default: 30) */
+  recencyHalfLifeDays?: number;
+}
+
+/** Honcho dialectic reasoning levels, cheapest first */
+export const REASONING_LEVELS = ["minimal", "low", "medium", "high", "max"] as const;
+export type ReasoningLevel = typeof REASONING_LEVELS[number];
+
+/** "session" asks about this session only, "global" about everything Honcho knows about the peer */
+export type DialecticScope = "session" | "global";
+
+export interface DialecticCallConfig {
+  /** Reasoning level for the peer.chat() calls (default: "low") */
+  reasoningLevel?: ReasoningLevel;
+  /** Scope the peer.chat() calls to the session or ask globally (default: "session") */
+  scope?: DialecticScope;
+}
+
+export interface DialecticConfig {
+  /** The user and AI summaries asked for at session start */
+  sessionStart?: DialecticCallConfig;
+  /** The user and AI summaries asked for before compaction */
+  preCompact?: DialecticCallConfig;
+}
+
+export interface ContextSectionBudget {
+  /** Higher-priority sections get budget first (see the hook for defaults) */
+  priority?: number;
+  /** Tokens reserved for this section before lower priorities are filled */
+  minTokens?: number;
+  /** Never give this section more than this many tokens */
+  maxTokens?: number;
+}
+
+export interface ContextBudgetConfig {
+  /** Total tokens for the session-start memory block (default: 4000, 0 = no limit) */
+  sessionStartTokens?: number;
+  /** Total tokens for the pre-compaction memory anchor (default: 3000, 0 = no limit) */
+  preCompactTokens?: number;
+  /** Per-section overrides keyed by section id, e.g. {"profile": {"minTokens": 800}} */
+  sections?: Record<string, ContextSectionBudget>;
 }
 
 export interface LocalContextConfig {
@@ -31,6 +113,48 @@ export interface LocalContextConfig {
   maxEntries?: number;
 }
 
+export interface RedactionPattern {
+  /** Label used in the placeholder, e.g. [REDACTED:internal_host] */
+  name?: string;
+  /** JavaScript regular expression source */
+  pattern: string;
+  /** Regex flags ("g" is always added) */
+  flags?: string;
+}
+
+export interface RedactionConfig {
+  /** Redact secrets and PII before upload (default: true) */
+  enabled?: boolean;
+  /** Built-in detectors to turn off, e.g. ["email", "high_entropy"] */
+  disabledDetectors?: string[];
+  /** Extra patterns to redact, as regex source strings or {name, pattern, flags} */
+  patterns?: Array<string | RedactionPattern>;
+}
+
+export type PathRuleScope = "capture" | "context" | "all";
+
+export interface PathRule {
+  /** Glob matched against the working directory and its parents (~ expands to home) */
+  path: string;
+  /** "exclude" (default) turns the scope off, "include" turns it back on */
+  action?: "include" | "exclude";
+  /** What the rule controls: capture (uploads), context (injection), or all (default) */
+  scope?: PathRuleScope;
+}
+
+export interface CaptureRule {
+  /** Tool name glob, e.g. "Bash", "Notebook*", "mcp__github__*" */
+  tool: string;
+  /** "capture" (default) records matching calls, "ignore" skips them */
+  action?: "capture" | "ignore";
+  /** Regex the tool's main input must match: the command for Bash, the file path for file tools */
+  match?: string;
+  /** Regex the tool's main input must not match */
+  exclude?: string;
+  /** Summary template, e.g. "Ran {command} ({status})". Placeholders: {tool}, {status}, {file}, any tool_input field */
+  summary?: string;
+}
+
 export type SessionStrategy = "per-directory" | "git-branch" | "chat-instance";
 
 export type HonchoEnvironment = "production" | "local";
@@ -119,14 +243,20 @@ export function getCachedStdin(): string | null {
  * Shared hook entry point initialization.
  * Reads stdin once, caches it, detects host, and exits early for unsupported hosts.
  * Must be called at the top of every hook entry point before the handler.
+ * Entry points not fed through stdin (hooks/prefetch.ts) pass their input.
  */
-export async function initHook(): Promise<void> {
-  const stdinText = await Bun.stdin.text();
+export async function initHook(inputText?: string): Promise<void> {
+  const stdinText = inputText ?? await Bun.stdin.text();
   cacheStdin(stdinText);
   let input: Record<string, unknown> = {};
   try { input = JSON.parse(stdinText || "{}"); } catch { process.exit(0); }
   if (input.cursor_version) process.exit(0);
   setDetectedHost(detectHost(input));
+  // Project config (.honcho.json) is discovered from the hook's working directory
+  const roots = input.workspace_roots;
+  const cwd = (Array.isArray(roots) && typeof roots[0] === "string" ? roots[0] : null)
+    ?? (typeof input.cwd === "string" ? input.cwd : null);
+  if (cwd) setProjectDir(cwd);
 }
 
 // ============================================
@@ -142,9 +272,19 @@ interface HonchoFileConfig {
   sessions?: Record<string, string>;
   saveMessages?: boolean;
   messageUpload?: MessageUploadConfig;
+  toolResults?: ToolResultsConfig;
+  toolUpload?: ToolUploadConfig;
   contextRefresh?: ContextRefreshConfig;
+  searchQuery?: SearchQueryConfig;
+  relevance?: RelevanceConfig;
+  dialectic?: DialecticConfig;
+  contextBudget?: ContextBudgetConfig;
+  tokenizer?: string;
   endpoint?: HonchoEndpointConfig;
   localContext?: LocalContextConfig;
+  redaction?: RedactionConfig;
+  pathRules?: PathRule[];
+  captureRules?: CaptureRule[];
   enabled?: boolean;
   logging?: boolean;
   sessionStrategy?: SessionStrategy;
@@ -184,12 +324,32 @@ export interface HonchoCLAUDEConfig {
   saveMessages?: boolean;
   /** Token-based upload limits */
   messageUpload?: MessageUploadConfig;
+  /** Failure digests from tool results */
+  toolResults?: ToolResultsConfig;
+  /** When PostToolUse activity is uploaded */
+  toolUpload?: ToolUploadConfig;
   /** Context retrieval settings */
   contextRefresh?: ContextRefreshConfig;
+  /** How the per-prompt search query is built */
+  searchQuery?: SearchQueryConfig;
+  /** Which conclusions are injected on each prompt */
+  relevance?: RelevanceConfig;
+  /** Reasoning level and scope of the dialectic calls at session start and compaction */
+  dialectic?: DialecticConfig;
+  /** Token budgets for injected memory */
+  contextBudget?: ContextBudgetConfig;
+  /** How tokens are counted: "bpe" (default) or "chars" (chars / 4) */
+  tokenizer?: string;
   /** SaaS vs local instance config */
   endpoint?: HonchoEndpointConfig;
   /** Local claude-context.md settings */
   localContext?: LocalContextConfig;
+  /** Secret/PII redaction applied before upload */
+  redaction?: RedactionConfig;
+  /** Per-directory include/exclude rules for capture and context */
+  pathRules?: PathRule[];
+  /** Which tool calls PostToolUse records, and how they are summarized */
+  captureRules?: CaptureRule[];
   /** Temporarily disable plugin (default: true) */
   enabled?: boolean;
   /** Enable file logging to ~/.honcho/ (default: true) */
@@ -214,20 +374,34 @@ export function configExists(): boolean {
 }
 
 /**
- * Load config from file, with environment variable fallbacks.
- * Host-specific fields are resolved from the hosts block in the config file.
+ * Load the effective config: global file (or env-only fallback), overlaid
+ * with the project's .honcho.json, with env var overrides applied last.
+ * Precedence: defaults < ~/.honcho/config.json < project file < env vars.
  */
 export function loadConfig(host?: HonchoHost): HonchoCLAUDEConfig | null {
+  const config = loadGlobalConfig(host);
+  if (!config) return null;
+  const project = findProjectConfig();
+  if (!project) return config;
+  return mergeWithEnvVars(applyProjectConfig(config, project.config));
+}
+
+/**
+ * Load config from the global file only, with environment variable fallbacks.
+ * Host-specific fields are resolved from the hosts block in the config file.
+ * Use this (not loadConfig) before saveConfig(), so project values never
+ * leak into ~/.honcho/config.json.
+ */
+export function loadGlobalConfig(host?: HonchoHost): HonchoCLAUDEConfig | null {
   const resolvedHost = host ?? getDetectedHost();
 
   if (configExists()) {
-    try {
-      const content = readFileSync(CONFIG_FILE, "utf-8");
-      const raw = JSON.parse(content) as HonchoFileConfig;
+    // Recovers from config.json.bak if the file is corrupt
+    const raw = readJsonFile<HonchoFileConfig | null>(CONFIG_FILE, null);
+    if (raw) {
       return resolveConfig(raw, resolvedHost);
-    } catch {
-      // Fall through to env-only config
     }
+    // Fall through to env-only config
   }
   return loadConfigFromEnv(resolvedHost);
 }
@@ -279,9 +453,19 @@ function resolveConfig(raw: HonchoFileConfig, host: HonchoHost): HonchoCLAUDECon
     sessions: raw.sessions,
     saveMessages: raw.saveMessages,
     messageUpload: raw.messageUpload,
+    toolResults: raw.toolResults,
+    toolUpload: raw.toolUpload,
     contextRefresh: raw.contextRefresh,
+    searchQuery: raw.searchQuery,
+    relevance: raw.relevance,
+    dialectic: raw.dialectic,
+    contextBudget: raw.contextBudget,
+    tokenizer: raw.tokenizer,
     endpoint: raw.endpoint,
     localContext: raw.localContext,
+    redaction: raw.redaction,
+    pathRules: raw.pathRules,
+    captureRules: raw.captureRules,
     enabled: raw.enabled,
     logging: raw.logging,
     globalOverride: raw.globalOverride,
@@ -364,19 +548,13 @@ function mergeWithEnvVars(config: HonchoCLAUDEConfig): HonchoCLAUDEConfig {
  * are only consulted as fallbacks when the hosts block is missing.
  */
 export function saveConfig(config: HonchoCLAUDEConfig): void {
-  if (!existsSync(CONFIG_DIR)) {
-    mkdirSync(CONFIG_DIR, { recursive: true });
-  }
-
-  let existing: HonchoFileConfig = {};
-  if (existsSync(CONFIG_FILE)) {
-    try {
-      existing = JSON.parse(readFileSync(CONFIG_FILE, "utf-8"));
-    } catch {
-      // Start fresh if corrupt
-    }
-  }
+  // Merge under the config lock so concurrent saves from other hooks aren't lost
+  updateJsonFile<HonchoFileConfig>(CONFIG_FILE, {}, (existing) => {
+    mergeIntoFileConfig(existing, config);
+  });
+}
 
+function mergeIntoFileConfig(existing: HonchoFileConfig, config: HonchoCLAUDEConfig): void {
   // Merge shared fields
   existing.apiKey = config.apiKey;
   existing.peerName = config.peerName;
@@ -385,9 +563,19 @@ export function saveConfig(config: HonchoCLAUDEConfig): void {
   existing.sessions = config.sessions;
   existing.saveMessages = config.saveMessages;
   existing.messageUpload = config.messageUpload;
+  existing.toolResults = config.toolResults;
+  existing.toolUpload = config.toolUpload;
   existing.contextRefresh = config.contextRefresh;
+  existing.searchQuery = config.searchQuery;
+  existing.relevance = config.relevance;
+  existing.dialectic = config.dialectic;
+  existing.contextBudget = config.contextBudget;
+  existing.tokenizer = config.tokenizer;
   existing.endpoint = config.endpoint;
   existing.localContext = config.localContext;
+  existing.redaction = config.redaction;
+  existing.pathRules = config.pathRules;
+  existing.captureRules = config.captureRules;
   existing.enabled = config.enabled;
   existing.logging = config.logging;
 
@@ -417,8 +605,6 @@ export function saveConfig(config: HonchoCLAUDEConfig): void {
     }
     delete existing.aiPeer;
   }
-
-  writeFileSync(CONFIG_FILE, JSON.stringify(existing, null, 2));
 }
 
 export function getClaudeSettingsPath(): string {
@@ -436,11 +622,17 @@ export function getSessionForPath(cwd: string): string | null {
 }
 
 /** Session name derived from strategy. Manual overrides only apply to per-directory.
+ *  A `session` set in the project's .honcho.json wins over both.
  *  @param instanceId - Explicit instance ID for chat-instance strategy. Falls back to
  *                      per-cwd cache, then global cache. Callers should pass hookInput.session_id
  *                      when available to avoid cross-session collision from the global cache.
  */
 export function getSessionName(cwd: string, instanceId?: string): string {
+  const projectSession = findProjectConfig(cwd)?.config.session;
+  if (projectSession) {
+    return projectSession;
+  }
+
   const config = loadConfig();
   const strategy = config?.sessionStrategy ?? "per-directory";
 
@@ -482,7 +674,7 @@ export function getSessionName(cwd: string, instanceId?: string): string {
 }
 
 export function setSessionForPath(cwd: string, sessionName: string): void {
-  const config = loadConfig();
+  const config = loadGlobalConfig();
   if (!config) return;
   if (!config.sessions) {
     config.sessions = {};
@@ -497,27 +689,359 @@ export function getAllSessions(): Record<string, string> {
 }
 
 export function removeSessionForPath(cwd: string): void {
-  const config = loadConfig();
+  const config = loadGlobalConfig();
   if (!config?.sessions) return;
   delete config.sessions[cwd];
   saveConfig(config);
 }
 
+// ============================================
+// Project Config Overlay
+// ============================================
+
+/** Checked in each directory, walking up from the project dir */
+const PROJECT_CONFIG_FILES = [".honcho.json", join(".claude", "honcho.json")];
+
+/**
+ * Shape of a checked-in .honcho.json. Only these fields are honored;
+ * credentials, endpoint, identity and the hosts block stay personal.
+ */
+export interface HonchoProjectConfig {
+  workspace?: string;
+  aiPeer?: string;
+  linkedHosts?: string[];
+  /** Fixed Honcho session name for this repo (overrides sessionStrategy) */
+  session?: string;
+  sessionStrategy?: SessionStrategy;
+  sessionPeerPrefix?: boolean;
+  saveMessages?: boolean;
+  messageUpload?: MessageUploadConfig;
+  toolResults?: ToolResultsConfig;
+  toolUpload?: ToolUploadConfig;
+  contextRefresh?: ContextRefreshConfig;
+  searchQuery?: SearchQueryConfig;
+  relevance?: RelevanceConfig;
+  dialectic?: DialecticConfig;
+  contextBudget?: ContextBudgetConfig;
+  redaction?: RedactionConfig;
+  enabled?: boolean;
+}
+
+const PROJECT_FIELD_TYPES: Record<keyof HonchoProjectConfig, "string" | "boolean" | "object" | "string[]"> = {
+  workspace: "string",
+  aiPeer: "string",
+  linkedHosts: "string[]",
+  session: "string",
+  sessionStrategy: "string",
+  sessionPeerPrefix: "boolean",
+  saveMessages: "boolean",
+  messageUpload: "object",
+  toolResults: "object",
+  toolUpload: "object",
+  contextRefresh: "object",
+  searchQuery: "object",
+  relevance: "object",
+  dialectic: "object",
+  contextBudget: "object",
+  redaction: "object",
+  enabled: "boolean",
+};
+
+const SESSION_STRATEGIES = new Set<SessionStrategy>(["per-directory", "git-branch", "chat-instance"]);
+
+export interface ProjectConfigInfo {
+  path: string;
+  config: HonchoProjectConfig;
+  /** Keys present in the file that were ignored (not allowed at project level, or wrong type) */
+  refused: string[];
+  /** Set when the file exists but isn't valid JSON */
+  error?: string;
+}
+
+let _projectDir: string | null = null;
+
+export function setProjectDir(dir: string): void {
+  _projectDir = dir;
+}
+
+export function getProjectDir(): string {
+  return _projectDir ?? process.cwd();
+}
+
+function isValidProjectValue(key: keyof HonchoProjectConfig, value: unknown): boolean {
+  switch (PROJECT_FIELD_TYPES[key]) {
+    case "string":
+      if (key === "sessionStrategy") return SESSION_STRATEGIES.has(value as SessionStrategy);
+      return typeof value === "string" && value.length > 0;
+    case "boolean":
+      return typeof value === "boolean";
+    case "object":
+      return typeof value === "object" && value !== null && !Array.isArray(value);
+    case "string[]":
+      return Array.isArray(value) && value.every((v) => typeof v === "string");
+  }
+}
+
+function readProjectConfig(path: string): ProjectConfigInfo {
+  let raw: Record<string, unknown>;
+  try {
+    raw = JSON.parse(readFileSync(path, "utf-8"));
+  } catch (error) {
+    return { path, config: {}, refused: [], error: error instanceof Error ? error.message : String(error) };
+  }
+  if (typeof raw !== "object" || raw === null || Array.isArray(raw)) {
+    return { path, config: {}, refused: [], error: "expected a JSON object" };
+  }
+
+  const config: Record<string, unknown> = {};
+  const refused: string[] = [];
+  for (const [key, value] of Object.entries(raw)) {
+    if (key === "redaction" && isValidProjectValue(key, value)) {
+      config[key] = tightenOnlyRedaction(value as RedactionConfig, refused);
+    } else if (key === "messageUpload" && isValidProjectValue(key, value)) {
+      config[key] = tightenOnlyMessageUpload(value as MessageUploadConfig, refused);
+    } else if (key === "enabled" || key === "saveMessages") {
+      // A project may switch capture off, never back on
+      if (value === false) config[key] = false;
+      else refused.push(key);
+    } else if (key in PROJECT_FIELD_TYPES && isValidProjectValue(key as keyof HonchoProjectConfig, value)) {
+      config[key] = value;
+    } else {
+      refused.push(key);
+    }
+  }
+  return { path, config: config as HonchoProjectConfig, refused };
+}
+
+/**
+ * A cloned repository must not be able to switch scrubbing off for its
+ * directory: a project file may add patterns or turn redaction on, never
+ * disable it or drop built-in detectors. Anything else is refused.
+ */
+function tightenOnlyRedaction(redaction: RedactionConfig, refused: string[]): RedactionConfig {
+  const kept: RedactionConfig = {};
+  for (const [key, value] of Object.entries(redaction)) {
+    if (key === "patterns" && Array.isArray(value)) {
+      kept.patterns = value;
+    } else if (key === "enabled" && value === true) {
+      kept.enabled = true;
+    } else if (key === "disabledDetectors" && Array.isArray(value) && value.length === 0) {
+      // Nothing disabled, nothing to refuse
+    } else {
+      refused.push(`redaction.${key}`);
+    }
+  }
+  return kept;
+}
+
+/**
+ * Same rule for what gets uploaded: a project may turn capture off, lower the
+ * token caps or turn on summaries, but never re-enable capture the user
+ * switched off or raise a cap (0 = unlimited is refused). Caps are applied as
+ * the lower of the user's and the project's in applyProjectConfig.
+ */
+function tightenOnlyMessageUpload(upload: MessageUploadConfig, refused: string[]): MessageUploadConfig {
+  const kept: MessageUploadConfig = {};
+  for (const [key, value] of Object.entries(upload)) {
+    if ((key === "maxUserTokens" || key === "maxAssistantTokens") && typeof value === "number" && value > 0) {
+      kept[key] = value;
+    } else if (key === "summarizeAssistant" && value === true) {
+      kept.summarizeAssistant = true;
+    } else {
+      refused.push(`messageUpload.${key}`);
+    }
+  }
+  return kept;
+}
+
+/** The lower of two token caps, where 0 means no cap */
+function lowerCap(user: number, project: number | undefined): number {
+  if (project === undefined) return user;
+  return user > 0 ? Math.min(user, project) : project;
+}
+
+/**
+ * Find the nearest .honcho.json or .claude/honcho.json, walking up from
+ * `startDir` (default: the project dir). Stops before the home directory,
+ * since ~/.claude belongs to Claude Code itself, not to a project.
+ */
+export function findProjectConfig(startDir: string = getProjectDir()): ProjectConfigInfo | null {
+  const home = resolve(homedir());
+  let dir = resolve(startDir);
+  while (dir !== home) {
+    for (const name of PROJECT_CONFIG_FILES) {
+      const path = join(dir, name);
+      if (existsSync(path)) return readProjectConfig(path);
+    }
+    const parent = dirname(dir);
+    if (parent === dir) break;
+    dir = parent;
+  }
+  return null;
+}
+
+/**
+ * Overlay project values onto a resolved config. Scalars replace, settings
+ * objects merge key by key, and redaction patterns are added to (never
+ * replace) the user's own patterns. Redaction, capture and upload limits
+ * can only be tightened (see tightenOnlyRedaction, tightenOnlyMessageUpload).
+ */
+export function applyProjectConfig(config: HonchoCLAUDEConfig, project: HonchoProjectConfig): HonchoCLAUDEConfig {
+  const merged: HonchoCLAUDEConfig = { ...config };
+  if (project.workspace) merged.workspace = project.workspace;
+  if (project.aiPeer) merged.aiPeer = project.aiPeer;
+  if (project.linkedHosts) merged.linkedHosts = project.linkedHosts;
+  if (project.sessionStrategy) merged.sessionStrategy = project.sessionStrategy;
+  if (project.sessionPeerPrefix !== undefined) merged.sessionPeerPrefix = project.sessionPeerPrefix;
+  if (project.saveMessages === false) merged.saveMessages = false;
+  if (project.enabled === false) merged.enabled = false;
+  if (project.messageUpload) {
+    merged.messageUpload = {
+      maxUserTokens: lowerCap(config.messageUpload?.maxUserTokens ?? DEFAULT_MAX_USER_TOKENS, project.messageUpload.maxUserTokens),
+      maxAssistantTokens: lowerCap(config.messageUpload?.maxAssistantTokens ?? DEFAULT_MAX_ASSISTANT_TOKENS, project.messageUpload.maxAssistantTokens),
+      summarizeAssistant: config.messageUpload?.summarizeAssistant || project.messageUpload.summarizeAssistant,
+    };
+  }
+  if (project.toolResults) merged.toolResults = { ...config.toolResults, ...project.toolResults };
+  if (project.toolUpload) merged.toolUpload = { ...config.toolUpload, ...project.toolUpload };
+  if (project.contextRefresh) merged.contextRefresh = { ...config.contextRefresh, ...project.contextRefresh };
+  if (project.searchQuery) merged.searchQuery = { ...config.searchQuery, ...project.searchQuery };
+  if (project.relevance) merged.relevance = { ...config.relevance, ...project.relevance };
+  if (project.dialectic) {
+    merged.dialectic = {
+      sessionStart: { ...config.dialectic?.sessionStart, ...project.dialectic.sessionStart },
+      preCompact: { ...config.dialectic?.preCompact, ...project.dialectic.preCompact },
+    };
+  }
+  if (project.contextBudget) {
+    merged.contextBudget = {
+      ...config.contextBudget,
+      ...project.contextBudget,
+      sections: { ...config.contextBudget?.sections, ...project.contextBudget.sections },
+    };
+  }
+  if (project.redaction) {
+    merged.redaction = {
+      ...config.redaction,
+      ...(project.redaction.enabled === true ? { enabled: true } : {}),
+      patterns: [...(config.redaction?.patterns ?? []), ...(project.redaction.patterns ?? [])],
+    };
+  }
+  return merged;
+}
+
+export type ConfigSource = "env" | "project" | "global" | "default";
+
+/**
+ * Which layer each top-level field's effective value comes from.
+ * Mirrors the precedence in loadConfig() and mergeWithEnvVars().
+ */
+export function getConfigSources(fields: string[], host?: HonchoHost): Record<string, ConfigSource> {
+  const resolvedHost = host ?? getDetectedHost();
+  const raw = readJsonFile<Record<string, any>>(CONFIG_FILE, {});
+  const project = findProjectConfig()?.config as Record<string, unknown> | undefined;
+  const hostBlock = raw.hosts?.[resolvedHost] ?? {};
+  const hostFields = new Set(["workspace", "aiPeer", "linkedHosts"]);
+  const envOverrides: Record<string, boolean> = {
+    apiKey: !!process.env.HONCHO_API_KEY,
+    peerName: !!process.env.HONCHO_PEER_NAME,
+    enabled: process.env.HONCHO_ENABLED === "false",
+    logging: process.env.HONCHO_LOGGING === "false",
+  };
+
+  const sources: Record<string, ConfigSource> = {};
+  for (const field of fields) {
+    if (envOverrides[field]) {
+      sources[field] = "env";
+    } else if (project?.[field] !== undefined) {
+      sources[field] = "project";
+    } else if (hostFields.has(field) ? hostBlock[field] !== undefined || raw[field] !== undefined : raw[field] !== undefined) {
+      sources[field] = "global";
+    } else {
+      sources[field] = "default";
+    }
+  }
+  return sources;
+}
+
+const DEFAULT_MAX_USER_TOKENS = 3000;
+const DEFAULT_MAX_ASSISTANT_TOKENS = 1500;
+
 export function getMessageUploadConfig(): MessageUploadConfig {
   const config = loadConfig();
   return {
-    maxUserTokens: config?.messageUpload?.maxUserTokens ?? undefined,
-    maxAssistantTokens: config?.messageUpload?.maxAssistantTokens ?? undefined,
+    maxUserTokens: config?.messageUpload?.maxUserTokens ?? DEFAULT_MAX_USER_TOKENS,
+    maxAssistantTokens: config?.messageUpload?.maxAssistantTokens ?? DEFAULT_MAX_ASSISTANT_TOKENS,
     summarizeAssistant: config?.messageUpload?.summarizeAssistant ?? false,
   };
 }
 
+export function getToolResultsConfig(): ToolResultsConfig {
+  const config = loadConfig();
+  return {
+    captureFailures: config?.toolResults?.captureFailures ?? false,
+    maxErrorLines: config?.toolResults?.maxErrorLines ?? 5,
+  };
+}
+
+export function getToolUploadConfig(): ToolUploadConfig {
+  const config = loadConfig();
+  return {
+    flush: config?.toolUpload?.flush ?? "batched",
+    maxPending: config?.toolUpload?.maxPending ?? 20,
+    maxWaitSeconds: config?.toolUpload?.maxWaitSeconds ?? 120,
+  };
+}
+
 export function getContextRefreshConfig(): ContextRefreshConfig {
   const config = loadConfig();
   return {
     messageThreshold: config?.contextRefresh?.messageThreshold ?? 30,
     ttlSeconds: config?.contextRefresh?.ttlSeconds ?? 300,
     skipDialectic: config?.contextRefresh?.skipDialectic ?? false,
+    startupDeadlineSeconds: config?.contextRefresh?.startupDeadlineSeconds ?? 3,
+    prefetch: config?.contextRefresh?.prefetch ?? "detached",
+    skipInjected: config?.contextRefresh?.skipInjected ?? true,
+    refreshAfterCompaction: config?.contextRefresh?.refreshAfterCompaction ?? false,
+  };
+}
+
+export function getSearchQueryConfig(): SearchQueryConfig {
+  const config = loadConfig();
+  return {
+    windowSize: config?.searchQuery?.windowSize ?? 3,
+    recentWeight: config?.searchQuery?.recentWeight ?? 0.5,
+    recentDecay: config?.searchQuery?.recentDecay ?? 0.5,
+  };
+}
+
+export function getRelevanceConfig(): RelevanceConfig {
+  const config = loadConfig();
+  return {
+    minScore: config?.relevance?.minScore ?? 0.1,
+    maxConclusions: config?.relevance?.maxConclusions ?? 5,
+    recencyHalfLifeDays: config?.relevance?.recencyHalfLifeDays ?? 30,
+  };
+}
+
+export function getDialecticConfig(): Required<DialecticConfig> {
+  const config = loadConfig();
+  const withDefaults = (call?: DialecticCallConfig): DialecticCallConfig => ({
+    reasoningLevel: call?.reasoningLevel ?? "low",
+    scope: call?.scope ?? "session",
+  });
+  return {
+    sessionStart: withDefaults(config?.dialectic?.sessionStart),
+    preCompact: withDefaults(config?.dialectic?.preCompact),
+  };
+}
+
+export function getContextBudgetConfig(): ContextBudgetConfig {
+  const config = loadConfig();
+  return {
+    sessionStartTokens: config?.contextBudget?.sessionStartTokens ?? 4000,
+    preCompactTokens: config?.contextBudget?.preCompactTokens ?? 3000,
+    sections: config?.contextBudget?.sections ?? {},
   };
 }
 
@@ -528,6 +1052,15 @@ export function getLocalContextConfig(): LocalContextConfig {
   };
 }
 
+export function getRedactionConfig(): RedactionConfig {
+  const config = loadConfig();
+  return {
+    enabled: config?.redaction?.enabled ?? true,
+    disabledDetectors: config?.redaction?.disabledDetectors ?? [],
+    patterns: config?.redaction?.patterns ?? [],
+  };
+}
+
 export function isLoggingEnabled(): boolean {
   const config = loadConfig();
   return config?.logging !== false;
@@ -539,7 +1072,7 @@ export function isPluginEnabled(): boolean {
 }
 
 export function setPluginEnabled(enabled: boolean): void {
-  const config = loadConfig();
+  const config = loadGlobalConfig();
   if (!config) return;
   config.enabled = enabled;
   saveConfig(config);
@@ -554,15 +1087,8 @@ export function getLinkedWorkspaces(): string[] {
   const config = loadConfig();
   if (!config?.linkedHosts?.length) return [];
 
-  const cfgPath = getConfigPath();
-  if (!existsSync(cfgPath)) return [];
-
-  let raw: Record<string, any>;
-  try {
-    raw = JSON.parse(readFileSync(cfgPath, "utf-8"));
-  } catch {
-    return [];
-  }
+  const raw = readJsonFile<Record<string, any> | null>(getConfigPath(), null);
+  if (!raw) return [];
 
   const workspaces: string[] = [];
   for (const hostKey of config.linkedHosts) {
@@ -581,27 +1107,8 @@ export function getLinkedWorkspaces(): string[] {
  * Get all known host keys from the config file's hosts block.
  */
 export function getKnownHosts(): string[] {
-  const cfgPath = getConfigPath();
-  if (!existsSync(cfgPath)) return [];
-  try {
-    const raw = JSON.parse(readFileSync(cfgPath, "utf-8"));
-    return raw.hosts ? Object.keys(raw.hosts) : [];
-  } catch {
-    return [];
-  }
-}
-
-/** Simple token estimation (chars / 4) */
-export function estimateTokens(text: string): number {
-  return Math.ceil(text.length / 4);
-}
-
-export function truncateToTokens(text: string, maxTokens: number): string {
-  const estimatedChars = maxTokens * 4;
-  if (text.length <= estimatedChars) {
-    return text;
-  }
-  return text.slice(0, estimatedChars - 3) + "...";
+  const raw = readJsonFile<Record<string, any> | null>(getConfigPath(), null);
+  return raw?.hosts ? Object.keys(raw.hosts) : [];
 }
 
 export interface HonchoClientOptions {
@@ -643,7 +1150,7 @@ export function getEndpointInfo(config: HonchoCLAUDEConfig): { type: string; url
 const VALID_ENVIRONMENTS = new Set<HonchoEnvironment>(["production", "local"]);
 
 export function setEndpoint(environment?: HonchoEnvironment, baseUrl?: string): void {
-  const config = loadConfig();
+  const config = loadGlobalConfig();
   if (!config) return;
   if (environment && !VALID_ENVIRONMENTS.has(environment)) return;
   config.endpoint = { environment, baseUrl };
@@ -0,0 +1,266 @@
+/**
+ * Tool failure digests
+ *
+ * With `toolResults.captureFailures` on, failed tool calls are uploaded as
+ * `tool_failure` messages on the AI peer, so Honcho can learn a repo's
+ * recurring errors (a flaky test, a type error that keeps coming back, a
+ * missing env var). A digest is deliberately small: the command or file, the
+ * exit code, the first few error lines and the names of failing tests -
+ * never the full output. Output is redacted before anything is extracted.
+ *
+ * Sources:
+ * - PostToolUse `tool_response` (live, per call)
+ * - `tool_result` blocks in the transcript (session-end catch-up, for
+ *   failures PostToolUse never saw)
+ */
+
+import type { RedactionConfig } from "./config.js";
+import { redactText } from "./redact.js";
+import { getEntryContent, getEntryRole, type TranscriptEntry } from "./transcript.js";
+
+export interface ToolFailureDigest {
+  tool: string;
+  /** Command, file or task the tool was called with */
+  target?: string;
+  exitCode?: number;
+  errors: string[];
+  failedTests: string[];
+}
+
+export interface TranscriptToolFailure {
+  toolUseId: string;
+  digest: ToolFailureDigest;
+  timestamp?: string;
+}
+
+const MAX_LINE_LENGTH = 200;
+const MAX_TARGET_LENGTH = 100;
+const MAX_FAILED_TESTS = 10;
+// Only the head and tail of huge outputs are scanned
+const MAX_SCAN_CHARS = 20000;
+
+// ============================================
+// Extraction
+// ============================================
+
+const ANSI_PATTERN = /\x1b\[[0-9;?]*[A-Za-z]/g;
+
+const EXIT_CODE_PATTERN = /\b(?:exit(?:ed with)? code|exit status|returned non-zero exit status)[:\s]+(-?\d+)/i;
+
+const ERROR_LINE_PATTERNS = [
+  /\berror\b(?:\s*(?:TS|E)\d+)?\s*[:\]]/i,
+  /^\s*(?:\w+)?(?:Error|Exception)\b/,
+  /\bERR!/,
+  /^\s*(?:fatal|panic|Traceback)\b/i,
+  /^E\s{2,}\S/,
+  /\bcommand not found\b|\bNo such file or directory\b|\bPermission denied\b/,
+  /\bCannot find (?:module|name)\b|\bis not defined\b|\bundefined reference\b/,
+  /\bexpected\b.*\b(?:received|got|but was|to (?:be|equal))\b/i,
+];
+
+// Lines that look like errors but report success
+const NOT_AN_ERROR = /\b0 errors?\b|\bno errors?\b|\berrors?: 0\b/i;
+
+const FAILED_TEST_PATTERNS = [
+  /^\s*--- FAIL: (\S+)/,                       // go test
+  /^\s*FAILED\s+(\S+::\S+)/,                    // pytest
+  /^\s*(?:✕|✗|×)\s+(.+?)(?:\s+\(\d+(?:\.\d+)?\s*m?s\))?$/, // jest / vitest
+  /^\s*\(fail\)\s+(.+?)(?:\s+\[\d+(?:\.\d+)?m?s\])?$/,      // bun test
+  /^\s*●\s+(.+›.+)$/,                           // jest failure headings
+  /^\s*test\s+(\S+)\s+\.\.\.\s+FAILED\b/,       // cargo test
+  /^\s*FAIL\s+(\S+\.(?:test|spec)\.\w+)/,       // jest / vitest file
+];
+
+function clip(text: string, max: number): string {
+  return text.length > max ? text.slice(0, max - 3) + "..." : text;
+}
+
+function scanWindow(output: string): string {
+  if (output.length <= MAX_SCAN_CHARS) return output;
+  const half = MAX_SCAN_CHARS / 2;
+  return `${output.slice(0, half)}\n${output.slice(-half)}`;
+}
+
+function extractErrors(lines: string[], maxLines: number): string[] {
+  const errors: string[] = [];
+  for (const line of lines) {
+    const trimmed = line.trim();
+    if (!trimmed || NOT_AN_ERROR.test(trimmed)) continue;
+    if (!ERROR_LINE_PATTERNS.some((p) => p.test(trimmed))) continue;
+    const clipped = clip(trimmed, MAX_LINE_LENGTH);
+    if (!errors.includes(clipped)) errors.push(clipped);
+    if (errors.length >= maxLines) break;
+  }
+  return errors;
+}
+
+function extractFailedTests(lines: string[]): string[] {
+  const tests: string[] = [];
+  for (const line of lines) {
+    for (const pattern of FAILED_TEST_PATTERNS) {
+      const name = line.match(pattern)?.[1]?.trim();
+      if (name && !tests.includes(name)) {
+        tests.push(clip(name, MAX_LINE_LENGTH));
+        break;
+      }
+    }
+    if (tests.length >= MAX_FAILED_TESTS) break;
+  }
+  return tests;
+}
+
+function describeTarget(toolName: string, toolInput: Record<string, any>): string | undefined {
+  const target =
+    toolName === "Bash" ? toolInput.command :
+    toolName === "Task" ? toolInput.description :
+    toolInput.file_path || toolInput.notebook_path || toolInput.path || toolInput.pattern || toolInput.url;
+  return typeof target === "string" && target.trim()
+    ? clip(target.trim().replace(/\s+/g, " "), MAX_TARGET_LENGTH)
+    : undefined;
+}
+
+/**
+ * Build a digest from raw tool output. Returns null when the output shows
+ * no failure (not marked as an error, exit code 0, no failing tests).
+ */
+function buildDigest(
+  toolName: string,
+  toolInput: Record<string, any>,
+  output: string,
+  options: { isError: boolean; exitCode?: number; maxErrorLines: number; redaction: RedactionConfig | undefined }
+): ToolFailureDigest | null {
+  const redacted = redactText(scanWindow(output.replace(ANSI_PATTERN, "")), options.redaction).text;
+  const lines = redacted.split("\n");
+
+  const exitCode = options.exitCode ?? (() => {
+    const match = redacted.match(EXIT_CODE_PATTERN);
+    return match ? Number(match[1]) : undefined;
+  })();
+  const failedTests = extractFailedTests(lines);
+  const failed = options.isError || (exitCode !== undefined && exitCode !== 0) || failedTests.length > 0;
+  if (!failed) return null;
+
+  let errors = extractErrors(lines, options.maxErrorLines);
+  if (errors.length === 0) {
+    // Nothing recognizable: keep the first non-empty lines instead
+    errors = lines
+      .map((l) => l.trim())
+      .filter((l) => l && !EXIT_CODE_PATTERN.test(l))
+      .slice(0, Math.min(2, options.maxErrorLines))
+      .map((l) => clip(l, MAX_LINE_LENGTH));
+  }
+
+  return {
+    tool: toolName,
+    target: describeTarget(toolName, toolInput),
+    exitCode: exitCode === 0 ? undefined : exitCode,
+    errors,
+    failedTests,
+  };
+}
+
+function numberField(...values: unknown[]): number | undefined {
+  for (const value of values) {
+    if (typeof value === "number" && Number.isFinite(value)) return value;
+  }
+  return undefined;
+}
+
+// ============================================
+// Sources
+// ============================================
+
+/**
+ * Digest a PostToolUse `tool_response`, or null if the call succeeded.
+ * `redaction` is the config the hook resolved for its directory.
+ */
+export function digestToolResponse(
+  toolName: string,
+  toolInput: Record<string, any>,
+  toolResponse: Record<string, any>,
+  maxErrorLines: number,
+  redaction: RedactionConfig | undefined
+): ToolFailureDigest | null {
+  const error = toolResponse.error;
+  const output = [
+    typeof error === "string" ? error : error ? JSON.stringify(error) : "",
+    typeof toolResponse.stderr === "string" ? toolResponse.stderr : "",
+    typeof toolResponse.stdout === "string" ? toolResponse.stdout : "",
+  ].filter(Boolean).join("\n");
+
+  return buildDigest(toolName, toolInput, output, {
+    isError: !!error || toolResponse.success === false,
+    exitCode: numberField(toolResponse.exitCode, toolResponse.exit_code, toolResponse.returnCode),
+    maxErrorLines,
+    redaction,
+  });
+}
+
+/**
+ * Digest every failed `tool_result` in a list of transcript entries, matched
+ * to the `tool_use` that produced it for the tool name and input
+ */
+export function digestTranscriptFailures(
+  entries: TranscriptEntry[],
+  maxErrorLines: number,
+  redaction: RedactionConfig | undefined
+): TranscriptToolFailure[] {
+  const toolUses = new Map<string, { name: string; input: Record<string, any> }>();
+  const failures: TranscriptToolFailure[] = [];
+
+  for (const entry of entries) {
+    const content = getEntryContent(entry);
+    if (!Array.isArray(content)) continue;
+
+    if (getEntryRole(entry) === "assistant") {
+      for (const block of content) {
+        if (block.type === "tool_use" && block.id && block.name) {
+          toolUses.set(block.id, { name: block.name, input: block.input ?? {} });
+        }
+      }
+      continue;
+    }
+
+    for (const block of content) {
+      if (block.type !== "tool_result" || !block.tool_use_id) continue;
+      const output = typeof block.content === "string"
+        ? block.content
+        : (block.content ?? []).filter((p) => p.type === "text" && p.text).map((p) => p.text!).join("\n");
+      const toolUse = toolUses.get(block.tool_use_id);
+      const digest = buildDigest(toolUse?.name ?? "tool", toolUse?.input ?? {}, output, {
+        isError: block.is_error === true,
+        maxErrorLines,
+        redaction,
+      });
+      if (digest) {
+        failures.push({ toolUseId: block.tool_use_id, digest, timestamp: entry.timestamp });
+      }
+    }
+  }
+
+  return failures;
+}
+
+// ============================================
+// Formatting
+// ============================================
+
+export function formatToolFailure(digest: ToolFailureDigest): string {
+  const head = [`[Tool failure] ${digest.tool}`];
+  if (digest.target) head.push(`\`${digest.target}\``);
+  if (digest.exitCode !== undefined) head.push(`(exit ${digest.exitCode})`);
+
+  const lines = [head.join(" ")];
+  if (digest.failedTests.length > 0) {
+    lines.push(`Failed tests: ${digest.failedTests.join(", ")}`);
+  }
+  if (digest.errors.length > 0) {
+    lines.push(`Errors:\n${digest.errors.map((e) => `- ${e}`).join("\n")}`);
+  }
+  return lines.join("\n");
+}
+
+/** Upload ledger key for a tool call, shared by post-tool-use and session-end */
+export function getToolResultEntryKey(toolUseId: string): string {
+  return `tool:${toolUseId}`;
+}
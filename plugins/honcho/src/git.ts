@@ -82,6 +82,30 @@ export function getRecentCommits(cwd: string, count: number = 5): string[] {
   return output.split("\n").filter((line) => line.trim());
 }
 
+/**
+ * Full SHA of HEAD, or null outside a git repository
+ */
+export function getHeadCommit(cwd: string): string | null {
+  if (!isGitRepo(cwd)) {
+    return null;
+  }
+  return gitCommand(cwd, "rev-parse HEAD");
+}
+
+/**
+ * Files tracked by git, relative to the repository root
+ */
+export function getTrackedFiles(cwd: string, limit: number = 5000): string[] {
+  if (!isGitRepo(cwd)) {
+    return [];
+  }
+
+  const output = gitCommand(cwd, "ls-files");
+  if (!output) return [];
+
+  return output.split("\n").filter((line) => line.trim()).slice(0, limit);
+}
+
 /**
  * Get branches (local)
  */
@@ -1,11 +1,16 @@
-import { Honcho } from "@honcho-ai/sdk";
-import { loadConfig, getSessionForPath, getSessionName, getHonchoClientOptions, isPluginEnabled, getCachedStdin } from "../config.js";
-import { appendClaudeWork, getClaudeInstanceId } from "../cache.js";
-import { logHook, logApiCall, setLogContext } from "../log.js";
+import { loadConfig, getSessionForPath, getSessionName, getCachedStdin, getToolResultsConfig, getToolUploadConfig, type HonchoCLAUDEConfig, type CaptureRule } from "../config.js";
+import { appendClaudeWork, getClaudeInstanceId, getContextCacheKey, recordUploadedEntries } from "../cache.js";
+import { enqueueMessages, drainOutbox, shouldFlushToolActivity } from "../outbox.js";
+import { getCaptureRules, matchCaptureRules, renderSummaryTemplate } from "../capture.js";
+import { digestToolResponse, formatToolFailure, getToolResultEntryKey } from "../digest.js";
+import { getPolicy } from "../policy.js";
+import { logHook, logFlow, setLogContext } from "../log.js";
 import { visCapture } from "../visual.js";
 
 
 interface HookInput {
+  session_id?: string;
+  tool_use_id?: string;
   tool_name?: string;
   tool_input?: Record<string, any>;
   tool_response?: Record<string, any>;
@@ -13,25 +18,6 @@ interface HookInput {
   workspace_roots?: string[];
 }
 
-function shouldLogTool(toolName: string, toolInput: Record<string, any>): boolean {
-  const significantTools = new Set(["Write", "Edit", "Bash", "Task", "NotebookEdit"]);
-
-  if (!significantTools.has(toolName)) {
-    return false;
-  }
-
-  if (toolName === "Bash") {
-    const command = toolInput.command || "";
-    // Skip read-only or trivial bash commands
-    const trivialCommands = ["ls", "pwd", "echo", "cat", "head", "tail", "which", "type", "git status", "git log", "git diff"];
-    if (trivialCommands.some((cmd) => command.trim().startsWith(cmd))) {
-      return false;
-    }
-  }
-
-  return true;
-}
-
 /**
  * Extract meaningful purpose/description from file content
  */
@@ -121,11 +107,21 @@ function summarizeEdit(oldStr: string, newStr: string, filePath: string): string
   return `modified ${oldLines} lines`;
 }
 
+function isToolSuccess(toolResponse: Record<string, any>): boolean {
+  const exitCode = toolResponse.exitCode ?? toolResponse.exit_code;
+  return !toolResponse.error && (typeof exitCode !== "number" || exitCode === 0);
+}
+
 function formatToolSummary(
   toolName: string,
   toolInput: Record<string, any>,
-  toolResponse: Record<string, any>
+  toolResponse: Record<string, any>,
+  rule: CaptureRule
 ): string {
+  if (rule.summary) {
+    return renderSummaryTemplate(rule.summary, toolName, toolInput, isToolSuccess(toolResponse));
+  }
+
   switch (toolName) {
     case "Write": {
       const filePath = toolInput.file_path || "unknown";
@@ -144,7 +140,7 @@ function formatToolSummary(
     }
     case "Bash": {
       const command = (toolInput.command || "").slice(0, 100);
-      const success = !toolResponse.error;
+      const success = isToolSuccess(toolResponse);
       // Extract meaningful command info
       const cmdParts = command.split(/[;&|]/)[0].trim();
       // Categorize command type
@@ -191,11 +187,6 @@ export async function handlePostToolUse(): Promise<void> {
     process.exit(0);
   }
 
-  // Early exit if plugin is disabled
-  if (!isPluginEnabled()) {
-    process.exit(0);
-  }
-
   let hookInput: HookInput = {};
   try {
     const input = getCachedStdin() ?? await Bun.stdin.text();
@@ -211,49 +202,106 @@ export async function handlePostToolUse(): Promise<void> {
   const toolResponse = hookInput.tool_response || {};
   const cwd = hookInput.workspace_roots?.[0] || hookInput.cwd || process.cwd();
 
-  // Set log context
-  setLogContext(cwd, getSessionName(cwd));
+  const instanceId = hookInput.session_id || getClaudeInstanceId();
+
+  // Early exit if plugin is disabled, capture is off for this directory,
+  // or this session is incognito
+  if (!getPolicy(cwd, config, instanceId).capture) {
+    process.exit(0);
+  }
+
+  // One session for everything this call queues, whatever the session strategy
+  const sessionName = getSessionName(cwd, instanceId || undefined);
+  setLogContext(cwd, sessionName);
 
-  if (!shouldLogTool(toolName, toolInput)) {
+  // Which calls are recorded is decided by capture rules (built-in + captureRules config)
+  const rule = matchCaptureRules(toolName, toolInput, getCaptureRules(config));
+  if (!rule) {
     process.exit(0);
   }
 
-  const summary = formatToolSummary(toolName, toolInput, toolResponse);
+  const summary = formatToolSummary(toolName, toolInput, toolResponse, rule);
   logHook("post-tool-use", summary, { tool: toolName });
   visCapture(summary);
 
   // INSTANT: Update local claude context file (~2ms)
   appendClaudeWork(summary);
 
-  // Upload to Honcho and wait for completion
-  await logToHonchoAsync(config, cwd, summary).catch((e) => logHook("post-tool-use", `Upload failed: ${e}`, { error: String(e) }));
+  // Queue for Honcho
+  queueToolSummary(config, cwd, sessionName, summary, instanceId);
+  if (getToolResultsConfig().captureFailures) {
+    queueToolFailure(config, cwd, sessionName, hookInput, instanceId);
+  }
+
+  // Tool activity is batched: most calls only append to the outbox, and the
+  // next prompt, Stop or SessionEnd uploads it in one request
+  const { flush, reason, stats } = shouldFlushToolActivity(getToolUploadConfig());
+  if (flush) {
+    await drainOutbox(config, { source: `post-tool-use:${reason}` });
+  } else {
+    logFlow("outbox", `post-tool-use: deferred (${stats.due} waiting, oldest ${Math.round(stats.oldestDueMs / 1000)}s)`);
+  }
 
   process.exit(0);
 }
 
-async function logToHonchoAsync(config: any, cwd: string, summary: string): Promise<void> {
+function queueToolSummary(config: HonchoCLAUDEConfig, cwd: string, sessionName: string, summary: string, instanceId: string | null): void {
   // Skip if message saving is disabled
   if (config.saveMessages === false) {
     return;
   }
 
-  const honcho = new Honcho(getHonchoClientOptions(config));
-  const sessionName = getSessionName(cwd);
+  // Log the tool use with instance_id and session_affinity for project-scoped fact extraction
+  enqueueMessages(config, [{
+    sessionName,
+    peerName: config.aiPeer,
+    content: `[Tool] ${summary}`,
+    cwd,
+    metadata: {
+      instance_id: instanceId || undefined,
+      session_affinity: sessionName,
+    },
+  }]);
+}
 
-  // Get session and peer using new fluent API
-  const session = await honcho.session(sessionName);
-  const aiPeer = await honcho.peer(config.aiPeer);
+/**
+ * Opt-in (toolResults.captureFailures): upload what failed, not just that
+ * something did. The call is recorded in the upload ledger so session-end
+ * doesn't send the same failure again from the transcript.
+ */
+function queueToolFailure(config: HonchoCLAUDEConfig, cwd: string, sessionName: string, hookInput: HookInput, instanceId: string | null): void {
+  if (config.saveMessages === false) {
+    return;
+  }
 
-  // Log the tool use with instance_id and session_affinity for project-scoped fact extraction
-  logApiCall("session.addMessages", "POST", `tool: ${summary.slice(0, 50)}`);
-  const instanceId = getClaudeInstanceId();
-
-  await session.addMessages([
-    aiPeer.message(`[Tool] ${summary}`, {
-      metadata: {
-        instance_id: instanceId || undefined,
-        session_affinity: sessionName,
-      },
-    }),
-  ]);
+  const digest = digestToolResponse(
+    hookInput.tool_name || "",
+    hookInput.tool_input || {},
+    hookInput.tool_response || {},
+    getToolResultsConfig().maxErrorLines!,
+    config.redaction
+  );
+  if (!digest) {
+    return;
+  }
+
+  logHook("post-tool-use", `Tool failure digest: ${digest.errors.length} error lines, ${digest.failedTests.length} failed tests`, { tool: digest.tool });
+
+  enqueueMessages(config, [{
+    sessionName,
+    peerName: config.aiPeer,
+    content: formatToolFailure(digest),
+    cwd,
+    metadata: {
+      instance_id: instanceId || undefined,
+      type: "tool_failure",
+      tool: digest.tool,
+      exit_code: digest.exitCode,
+      failed_tests: digest.failedTests.length || undefined,
+      session_affinity: sessionName,
+    },
+  }]);
+  if (hookInput.tool_use_id) {
+    recordUploadedEntries(getContextCacheKey(sessionName, instanceId), [getToolResultEntryKey(hookInput.tool_use_id)]);
+  }
 }
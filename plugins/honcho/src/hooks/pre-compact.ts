@@ -1,7 +1,11 @@
 import { Honcho } from "@honcho-ai/sdk";
-import { loadConfig, getSessionForPath, getSessionName, getHonchoClientOptions, isPluginEnabled, getCachedStdin } from "../config.js";
+import { loadConfig, getSessionForPath, getSessionName, getHonchoClientOptions, getCachedStdin, getContextBudgetConfig, getContextRefreshConfig, getDialecticConfig } from "../config.js";
+import { getContextCacheKey, getInstanceIdForCwd, requestInjectionRefresh } from "../cache.js";
+import { drainOutbox } from "../outbox.js";
+import { assembleContext, type ContextSection } from "../assembler.js";
+import { getPolicy } from "../policy.js";
 import { Spinner } from "../spinner.js";
-import { logHook, logApiCall, setLogContext } from "../log.js";
+import { logHook, logApiCall, logFlow, setLogContext } from "../log.js";
 import { formatVerboseBlock, formatVerboseList } from "../visual.js";
 
 
@@ -16,7 +20,8 @@ interface HookInput {
 
 /**
  * Format a compact memory card that survives summarization
- * This is injected RIGHT BEFORE compaction so it becomes part of the summary
+ * This is injected RIGHT BEFORE compaction so it becomes part of the summary.
+ * Sections are fitted to contextBudget.preCompactTokens.
  */
 function formatMemoryCard(
   config: { peerName: string; aiPeer: string; workspace: string },
@@ -27,61 +32,110 @@ function formatMemoryCard(
   userDialectic: string | null,
   claudeDialectic: string | null
 ): string {
-  const parts: string[] = [];
+  const sections: ContextSection[] = [];
 
   // Header - identity anchor
-  parts.push(`## HONCHO MEMORY ANCHOR (Pre-Compaction Injection)
-This context is being injected because the conversation is about to be summarized.
+  sections.push({
+    id: "header",
+    title: "## HONCHO MEMORY ANCHOR (Pre-Compaction Injection)",
+    body: `This context is being injected because the conversation is about to be summarized.
 These conclusions MUST be preserved in the summary.
 
 ### Session Identity
 - User: ${config.peerName}
 - AI: ${config.aiPeer}
 - Workspace: ${config.workspace}
-- Session: ${sessionName}`);
+- Session: ${sessionName}`,
+    required: true,
+  });
 
   // User profile - critical to preserve
   const userPeerCard = userContext?.peerCard;
   if (userPeerCard?.length > 0) {
-    parts.push(`### ${config.peerName}'s Profile (PRESERVE)
-${userPeerCard.join("\n")}`);
+    sections.push({
+      id: "profile",
+      title: `### ${config.peerName}'s Profile (PRESERVE)`,
+      body: userPeerCard.join("\n"),
+      priority: 95,
+      minTokens: 300,
+    });
   }
 
   // Key user conclusions
   const userRep = userContext?.representation;
   if (typeof userRep === "string" && userRep.trim()) {
-    parts.push(`### Key Conclusions About ${config.peerName} (PRESERVE)\n${userRep}`);
+    sections.push({
+      id: "conclusions",
+      title: `### Key Conclusions About ${config.peerName} (PRESERVE)`,
+      body: userRep,
+      priority: 90,
+      minTokens: 400,
+    });
   }
 
   // Claude's self-context - what was I working on
   const claudeRep = claudeContext?.representation;
   if (typeof claudeRep === "string" && claudeRep.trim()) {
-    parts.push(`### ${config.aiPeer}'s Recent Work (PRESERVE)\n${claudeRep}`);
+    sections.push({
+      id: "work",
+      title: `### ${config.aiPeer}'s Recent Work (PRESERVE)`,
+      body: claudeRep,
+      priority: 70,
+      minTokens: 200,
+    });
   }
 
   // Session summary - what we were doing
   const shortSummary = summaries?.shortSummary;
   if (shortSummary?.content) {
-    parts.push(`### Session Context (PRESERVE)
-${shortSummary.content}`);
+    sections.push({
+      id: "summary",
+      title: "### Session Context (PRESERVE)",
+      body: shortSummary.content,
+      priority: 85,
+      minTokens: 200,
+    });
   }
 
   // Fresh dialectic insights - expensive but worth it at compaction time
   if (userDialectic) {
-    parts.push(`### AI Understanding of ${config.peerName} (PRESERVE)
-${userDialectic}`);
+    sections.push({
+      id: "userChat",
+      title: `### AI Understanding of ${config.peerName} (PRESERVE)`,
+      body: userDialectic,
+      priority: 80,
+    });
   }
 
   if (claudeDialectic) {
-    parts.push(`### ${config.aiPeer}'s Self-Reflection (PRESERVE)
-${claudeDialectic}`);
+    sections.push({
+      id: "claudeChat",
+      title: `### ${config.aiPeer}'s Self-Reflection (PRESERVE)`,
+      body: claudeDialectic,
+      priority: 60,
+    });
   }
 
-  parts.push(`### End Memory Anchor
-The above context represents persistent memory from Honcho.
-When summarizing this conversation, ensure these conclusions are preserved.`);
-
-  return parts.join("\n\n");
+  sections.push({
+    id: "footer",
+    title: "### End Memory Anchor",
+    body: `The above context represents persistent memory from Honcho.
+When summarizing this conversation, ensure these conclusions are preserved.`,
+    required: true,
+  });
+
+  const budget = getContextBudgetConfig();
+  const assembled = assembleContext(sections, {
+    totalTokens: budget.preCompactTokens,
+    overrides: budget.sections,
+  });
+  logFlow("assemble", `${assembled.parts.length} sections, ~${assembled.tokens} tokens (budget ${budget.preCompactTokens || "none"})`, {
+    dropped: assembled.dropped,
+    truncated: assembled.truncated,
+    duplicatesRemoved: assembled.duplicatesRemoved,
+  });
+
+  return assembled.parts.join("\n\n");
 }
 
 export async function handlePreCompact(): Promise<void> {
@@ -91,11 +145,6 @@ export async function handlePreCompact(): Promise<void> {
     process.exit(0);
   }
 
-  // Early exit if plugin is disabled
-  if (!isPluginEnabled()) {
-    process.exit(0);
-  }
-
   let hookInput: HookInput = {};
   try {
     const input = getCachedStdin() ?? await Bun.stdin.text();
@@ -109,11 +158,23 @@ export async function handlePreCompact(): Promise<void> {
   const cwd = hookInput.workspace_roots?.[0] || hookInput.cwd || process.cwd();
   const trigger = hookInput.trigger || "auto";
 
+  // Early exit if plugin is disabled or context is off for this directory
+  if (!getPolicy(cwd, config).context) {
+    process.exit(0);
+  }
+
   // Set log context
   setLogContext(cwd, getSessionName(cwd));
 
   logHook("pre-compact", `Compaction triggered (${trigger})`);
 
+  // Whatever was injected so far is about to be summarized away
+  const refreshConfig = getContextRefreshConfig();
+  if (refreshConfig.skipInjected && refreshConfig.refreshAfterCompaction) {
+    const instanceId = hookInput.session_id || getInstanceIdForCwd(cwd);
+    requestInjectionRefresh(getContextCacheKey(getSessionName(cwd, instanceId || undefined), instanceId));
+  }
+
   // Show spinner for auto compaction (context window full)
   const spinner = new Spinner({ style: "neural" });
   if (trigger === "auto") {
@@ -133,9 +194,14 @@ export async function handlePreCompact(): Promise<void> {
       spinner.update("fetching memory context");
     }
 
+    // Flush anything still waiting in the outbox while we fetch
+    const drainPromise = drainOutbox(config, { source: "pre-compact" });
+
     logApiCall("peer.context", "GET", `${config.peerName} + ${config.aiPeer}`);
     logApiCall("session.summaries", "GET", sessionName);
-    logApiCall("peer.chat", "POST", "dialectic queries x2");
+    const dialectic = getDialecticConfig().preCompact;
+    const chatOptions = { reasoningLevel: dialectic.reasoningLevel, session: dialectic.scope === "session" ? session : undefined };
+    logApiCall("peer.chat", "POST", `dialectic queries x2 (${dialectic.reasoningLevel}, ${dialectic.scope})`);
 
     // Fetch ALL context in parallel - this is the RIGHT time for expensive calls
     // because the context is about to be reset anyway
@@ -156,15 +222,17 @@ export async function handlePreCompact(): Promise<void> {
         // Fresh dialectic - ask about user (worth the cost at compaction time)
         userPeer.chat(
           `Summarize the most important things to remember about ${config.peerName}. Focus on their preferences, working style, current projects, and any critical context that should survive a conversation summary.`,
-          { session }
+          chatOptions
         ),
         // Fresh dialectic - claude self-reflection
         aiPeer.chat(
           `What are the most important things ${config.aiPeer} was working on with ${config.peerName}? Summarize key context that should be preserved.`,
-          { session }
+          chatOptions
         ),
       ]);
 
+    await drainPromise;
+
     // Extract results
     const userContext = userContextResult.status === "fulfilled" ? userContextResult.value : null;
     const claudeContext = claudeContextResult.status === "fulfilled" ? claudeContextResult.value : null;
@@ -0,0 +1,43 @@
+import { loadConfig, getSessionName, getCachedStdin } from "../config.js";
+import { drainOutbox } from "../outbox.js";
+import { runPrefetch, type PrefetchInput } from "../startup.js";
+import { getPolicy } from "../policy.js";
+import { logHook, setLogContext } from "../log.js";
+
+/**
+ * Background prefetch of the next session-start memory (see startup.ts).
+ * Also uploads whatever is waiting in the outbox, since session start no
+ * longer waits for that when it prints a prefetched bundle.
+ */
+export async function handlePrefetch(): Promise<void> {
+  const config = loadConfig();
+  if (!config) {
+    process.exit(0);
+  }
+
+  let input: Partial<PrefetchInput> = {};
+  try {
+    input = JSON.parse(getCachedStdin() || "{}");
+  } catch {
+    process.exit(0);
+  }
+  if (!input.cwd) {
+    process.exit(0);
+  }
+
+  const prefetchInput: PrefetchInput = { cwd: input.cwd, session_id: input.session_id, source: input.source || "prefetch" };
+  setLogContext(input.cwd, getSessionName(input.cwd, input.session_id));
+  if (!getPolicy(input.cwd, config, input.session_id).context) {
+    process.exit(0);
+  }
+
+  try {
+    await Promise.all([
+      runPrefetch(config, prefetchInput),
+      drainOutbox(config, { source: `prefetch:${prefetchInput.source}` }),
+    ]);
+  } catch (error) {
+    logHook("prefetch", `Error: ${error}`, { error: String(error) });
+  }
+  process.exit(0);
+}
@@ -1,17 +1,27 @@
-import { Honcho } from "@honcho-ai/sdk";
-import { loadConfig, getSessionForPath, getSessionName, getHonchoClientOptions, isPluginEnabled, getCachedStdin } from "../config.js";
-import { existsSync, readFileSync } from "fs";
+import { loadConfig, getSessionForPath, getSessionName, getCachedStdin, getMessageUploadConfig, getToolResultsConfig } from "../config.js";
 import {
-  getQueuedMessages,
-  markMessagesUploaded,
   generateClaudeSummary,
   saveClaudeLocalContext,
   loadClaudeLocalContext,
   getInstanceIdForCwd,
   chunkContent,
+  clearIncognito,
+  closeCachedInstance,
+  getIncognitoPeriods,
+  wasIncognitoAt,
+  getContextCacheKey,
+  getTranscriptEntryKeys,
+  getUploadedEntryKeys,
+  recordUploadedEntries,
 } from "../cache.js";
+import { enqueueMessages, drainOutbox, type OutboxMessage } from "../outbox.js";
+import { readNewTranscriptEntries, getEntryRole, getEntryText, getEntryToolUses, type TranscriptEntry } from "../transcript.js";
+import { prepareUpload } from "../summarize.js";
+import { digestTranscriptFailures, formatToolFailure, getToolResultEntryKey } from "../digest.js";
+import { getPolicy } from "../policy.js";
 import { playCooldown } from "../spinner.js";
-import { logHook, logApiCall, setLogContext } from "../log.js";
+import { requestPrefetch } from "../startup.js";
+import { logHook, setLogContext } from "../log.js";
 
 
 interface HookInput {
@@ -22,16 +32,16 @@ interface HookInput {
   workspace_roots?: string[];
 }
 
-interface TranscriptEntry {
-  type: string;
+// Most recent failures only; a long broken session shouldn't flood the peer
+const MAX_FAILURE_DIGESTS = 20;
+
+interface TranscriptMessage {
+  role: string;
+  content: string;
+  isMeaningful?: boolean;
   timestamp?: string;
-  message?: {
-    role?: string;
-    content: string | Array<{ type: string; text?: string; name?: string; input?: any }>;
-  };
-  // Alternative format sometimes seen
-  role?: string;
-  content?: string | Array<{ type: string; text?: string }>;
+  /** Upload ledger keys (uuid and text hash), shared with the stop hook */
+  entryKeys?: string[];
 }
 
 /**
@@ -76,80 +86,57 @@ function isMeaningfulAssistantContent(content: string): boolean {
   return content.length >= 200;
 }
 
-function parseTranscript(transcriptPath: string): Array<{ role: string; content: string; isMeaningful?: boolean; timestamp?: string }> {
-  const messages: Array<{ role: string; content: string; isMeaningful?: boolean; timestamp?: string }> = [];
-
-  if (!transcriptPath || !existsSync(transcriptPath)) {
-    return messages;
-  }
-
+/**
+ * Read the transcript entries appended since the last session-end for this
+ * transcript (all of it the first time; resumed sessions only add the rest)
+ */
+function readTranscript(transcriptPath: string): TranscriptEntry[] {
   try {
-    const content = readFileSync(transcriptPath, "utf-8");
-    const lines = content.split("\n").filter((line) => line.trim());
-
-    for (const line of lines) {
-      try {
-        const entry: TranscriptEntry = JSON.parse(line);
-
-        // Handle different transcript formats
-        const entryType = entry.type || entry.role;
-        const messageContent = entry.message?.content || entry.content;
-
-        if (entryType === "user" && messageContent) {
-          const userContent =
-            typeof messageContent === "string"
-              ? messageContent
-              : messageContent
-                  .filter((p) => p.type === "text")
-                  .map((p) => p.text || "")
-                  .join("\n");
-          if (userContent && userContent.trim()) {
-            messages.push({ role: "user", content: userContent, timestamp: entry.timestamp });
-          }
-        } else if (entryType === "assistant" && messageContent) {
-          let assistantContent = "";
-
-          if (typeof messageContent === "string") {
-            assistantContent = messageContent;
-          } else if (Array.isArray(messageContent)) {
-            // Extract text blocks (skip tool_use blocks - those are captured by PostToolUse)
-            const textBlocks = messageContent
-              .filter((p) => p.type === "text" && p.text)
-              .map((p) => p.text!)
-              .join("\n\n");
-
-            // Also note what tools were used for context
-            const toolUses = messageContent
-              .filter((p) => p.type === "tool_use")
-              .map((p: any) => p.name)
-              .filter(Boolean);
-
-            assistantContent = textBlocks;
-
-            // If there were tool uses but minimal text, note what tools were used
-            if (toolUses.length > 0 && textBlocks.length < 100) {
-              assistantContent = textBlocks + (textBlocks ? "\n" : "") + `[Used tools: ${toolUses.join(", ")}]`;
-            }
-          }
-
-          if (assistantContent && assistantContent.trim()) {
-            const isMeaningful = isMeaningfulAssistantContent(assistantContent);
-            // Truncate but keep more of meaningful content
-            const maxLen = isMeaningful ? 3000 : 1500;
-            messages.push({
-              role: "assistant",
-              content: assistantContent.slice(0, maxLen),
-              isMeaningful,
-              timestamp: entry.timestamp,
-            });
-          }
-        }
-      } catch {
-        continue;
-      }
+    const read = readNewTranscriptEntries(transcriptPath, "session-end");
+    if (read.reset) {
+      logHook("session-end", `Transcript was rewritten, reading it from the start`);
     }
+    return read.entries;
   } catch {
     // Failed to read transcript
+    return [];
+  }
+}
+
+function parseTranscript(entries: TranscriptEntry[]): TranscriptMessage[] {
+  const messages: TranscriptMessage[] = [];
+
+  for (const entry of entries) {
+    const entryType = getEntryRole(entry);
+
+    if (entryType === "user") {
+      const userContent = getEntryText(entry, "\n");
+      if (userContent.trim()) {
+        messages.push({ role: "user", content: userContent, timestamp: entry.timestamp });
+      }
+    } else if (entryType === "assistant") {
+      // Text blocks only (tool_use blocks are captured by PostToolUse)
+      const textBlocks = getEntryText(entry);
+      let assistantContent = textBlocks;
+
+      // If there were tool uses but minimal text, note what tools were used
+      const toolUses = getEntryToolUses(entry);
+      if (toolUses.length > 0 && textBlocks.length < 100) {
+        assistantContent = textBlocks + (textBlocks ? "\n" : "") + `[Used tools: ${toolUses.join(", ")}]`;
+      }
+
+      if (assistantContent.trim()) {
+        // Size limits are applied at upload time (messageUpload config)
+        const isMeaningful = isMeaningfulAssistantContent(assistantContent);
+        messages.push({
+          role: "assistant",
+          content: assistantContent,
+          isMeaningful,
+          timestamp: entry.timestamp,
+          entryKeys: textBlocks.trim() ? getTranscriptEntryKeys(textBlocks, entry.uuid) : entry.uuid ? [`uuid:${entry.uuid}`] : [],
+        });
+      }
+    }
   }
 
   return messages;
@@ -185,11 +172,6 @@ export async function handleSessionEnd(): Promise<void> {
     process.exit(0);
   }
 
-  // Early exit if plugin is disabled
-  if (!isPluginEnabled()) {
-    process.exit(0);
-  }
-
   let hookInput: HookInput = {};
   try {
     const input = getCachedStdin() ?? await Bun.stdin.text();
@@ -201,9 +183,23 @@ export async function handleSessionEnd(): Promise<void> {
   }
 
   const cwd = hookInput.workspace_roots?.[0] || hookInput.cwd || process.cwd();
+
+  const instanceId = hookInput.session_id || getInstanceIdForCwd(cwd);
+
+  // Early exit if plugin is disabled, capture is off for this directory,
+  // or this session is incognito. Incognito ends with the session either way.
+  const policy = getPolicy(cwd, config, instanceId);
+  clearIncognito(instanceId);
+  closeCachedInstance(cwd, instanceId);
+  if (!policy.capture) {
+    if (policy.incognito) {
+      logHook("session-end", "Session ended incognito, transcript not uploaded");
+    }
+    process.exit(0);
+  }
+
   const reason = hookInput.reason || "unknown";
   const transcriptPath = hookInput.transcript_path;
-  const instanceId = hookInput.session_id || getInstanceIdForCwd(cwd);
 
   // Set log context
   setLogContext(cwd, getSessionName(cwd, instanceId || undefined));
@@ -214,91 +210,116 @@ export async function handleSessionEnd(): Promise<void> {
   logHook("session-end", `Session ending`, { reason });
 
   try {
-    const honcho = new Honcho(getHonchoClientOptions(config));
     const sessionName = getSessionName(cwd, instanceId || undefined);
 
-    // Get session and peers using new fluent API
-    const session = await honcho.session(sessionName);
-    const userPeer = await honcho.peer(config.peerName);
-    const aiPeer = await honcho.peer(config.aiPeer);
-
     // Parse transcript
-    const transcriptMessages = transcriptPath ? parseTranscript(transcriptPath) : [];
+    const transcriptEntries = transcriptPath ? readTranscript(transcriptPath) : [];
+    const transcriptMessages = parseTranscript(transcriptEntries);
 
-    // =====================================================
-    // Step 1: Upload queued user messages (backup for failed fire-and-forget)
-    // Only upload messages for THIS session (by cwd), not other sessions
-    // =====================================================
-    const queuedMessages = getQueuedMessages(cwd);  // Filter by current session's cwd
-    logHook("session-end", `Processing ${queuedMessages.length} queued messages`);
-    if (queuedMessages.length > 0) {
-      // Chunk oversized messages instead of dropping them
-      const userMessages = queuedMessages.flatMap((msg) => {
-        const chunks = chunkContent(msg.content);
-        return chunks.map(chunk =>
-          userPeer.message(chunk, {
-            createdAt: msg.timestamp,
-            metadata: {
-              instance_id: msg.instanceId || undefined,
-              session_affinity: sessionName,
-            },
-          })
-        );
-      });
-      if (userMessages.length > 0) {
-        logApiCall("session.addMessages", "POST", `${queuedMessages.length} queued user messages (${userMessages.length} after chunking)`);
-        await session.addMessages(userMessages);
-      }
-      markMessagesUploaded(cwd);  // Only clear this session's messages
-    }
+    // Turns written while this session was incognito stay off the record,
+    // even though it isn't incognito any more
+    const incognitoPeriods = getIncognitoPeriods(instanceId);
 
     // =====================================================
-    // Step 2: Save assistant messages that weren't captured by post-tool-use
+    // Step 1: Queue assistant messages that weren't captured by post-tool-use
     // post-tool-use only logs tool activity, not Claude's prose responses
     // This captures: explanations, summaries, recommendations, analysis
     // =====================================================
-    let assistantMessages: Array<{ role: string; content: string; isMeaningful?: boolean; timestamp?: string }> = [];
+    let assistantMessages: TranscriptMessage[] = [];
     if (config.saveMessages !== false && transcriptMessages.length > 0) {
       // Extract assistant prose - prioritize meaningful content
-      const allAssistant = transcriptMessages.filter((msg) => msg.role === "assistant");
-
-      // Prioritize meaningful messages (explanations, summaries, etc.)
-      const meaningful = allAssistant.filter((msg) => msg.isMeaningful);
-      const other = allAssistant.filter((msg) => !msg.isMeaningful);
+      const assistantTurns = transcriptMessages.filter((msg) => msg.role === "assistant");
+      const allAssistant = assistantTurns.filter((msg) => !wasIncognitoAt(incognitoPeriods, msg.timestamp));
+      if (allAssistant.length < assistantTurns.length) {
+        logHook("session-end", `Skipping ${assistantTurns.length - allAssistant.length} assistant msgs written while incognito`);
+      }
 
       // Take all meaningful + recent others, up to 40 total
-      assistantMessages = [
-        ...meaningful.slice(-25),  // Keep more meaningful content
-        ...other.slice(-15),       // Keep some context
+      const selectMessages = (msgs: TranscriptMessage[]) => [
+        ...msgs.filter((msg) => msg.isMeaningful).slice(-25),  // Keep more meaningful content
+        ...msgs.filter((msg) => !msg.isMeaningful).slice(-15), // Keep some context
       ].slice(-40);
+      assistantMessages = selectMessages(allAssistant);
+
+      // Only upload what the stop hook hasn't already sent - this pass is a
+      // catch-up sweep for turns it missed (crashes, offline, skipped hooks)
+      const ledgerKey = getContextCacheKey(sessionName, instanceId);
+      const uploaded = getUploadedEntryKeys(ledgerKey);
+      const missed = allAssistant.filter((msg) => !msg.entryKeys?.some((k) => uploaded.has(k)));
+      const toUpload = selectMessages(missed);
+      if (missed.length < allAssistant.length) {
+        logHook("session-end", `Skipping ${allAssistant.length - missed.length} assistant msgs already uploaded`);
+      }
 
-      // Upload assistant messages for claude peer knowledge extraction
+      // Queue assistant messages for claude peer knowledge extraction
       // This is the KEY fix: capturing actual reasoning, not just tool calls
-      if (assistantMessages.length > 0) {
-        const meaningfulCount = assistantMessages.filter(m => m.isMeaningful).length;
-
-        const messagesToSend = assistantMessages.flatMap((msg) => {
-          const chunks = chunkContent(msg.content);
-          return chunks.map(chunk =>
-            aiPeer.message(chunk, {
-              createdAt: msg.timestamp,
-              metadata: {
-                instance_id: instanceId || undefined,
-                type: msg.isMeaningful ? 'assistant_prose' : 'assistant_brief',
-                meaningful: msg.isMeaningful || false,
-                session_affinity: sessionName,
-              },
-            })
-          );
+      if (toUpload.length > 0) {
+        const meaningfulCount = toUpload.filter(m => m.isMeaningful).length;
+
+        const uploadLimits = getMessageUploadConfig();
+        let limitedCount = 0;
+        const messagesToSend: OutboxMessage[] = toUpload.flatMap((msg) => {
+          const prepared = prepareUpload(msg.content, "assistant", uploadLimits);
+          if (prepared.truncation) limitedCount++;
+          const chunks = chunkContent(prepared.content);
+          return chunks.map(chunk => ({
+            sessionName,
+            peerName: config.aiPeer,
+            content: chunk,
+            createdAt: msg.timestamp,
+            cwd,
+            metadata: {
+              instance_id: instanceId || undefined,
+              type: msg.isMeaningful ? 'assistant_prose' : 'assistant_brief',
+              meaningful: msg.isMeaningful || false,
+              session_affinity: sessionName,
+              truncation: prepared.truncation,
+            },
+          }));
         });
 
-        logApiCall("session.addMessages", "POST", `${assistantMessages.length} assistant msgs (${meaningfulCount} meaningful, ${messagesToSend.length} after chunking)`);
-        await session.addMessages(messagesToSend);
+        logHook("session-end", `Queueing ${toUpload.length} assistant msgs (${meaningfulCount} meaningful, ${limitedCount} limited, ${messagesToSend.length} after chunking)`);
+        enqueueMessages(config, messagesToSend);
+        recordUploadedEntries(ledgerKey, toUpload.flatMap((msg) => msg.entryKeys ?? []));
       }
     }
 
     // =====================================================
-    // Step 3: Generate and save claude self-summary
+    // Step 1b: Opt-in failure digests for tool results post-tool-use
+    // didn't already report (failed calls, matchers it doesn't cover)
+    // =====================================================
+    const toolResults = getToolResultsConfig();
+    if (config.saveMessages !== false && toolResults.captureFailures && transcriptEntries.length > 0) {
+      const ledgerKey = getContextCacheKey(sessionName, instanceId);
+      const uploaded = getUploadedEntryKeys(ledgerKey);
+      const failures = digestTranscriptFailures(transcriptEntries, toolResults.maxErrorLines!, config.redaction)
+        .filter((f) => !uploaded.has(getToolResultEntryKey(f.toolUseId)))
+        .filter((f) => !wasIncognitoAt(incognitoPeriods, f.timestamp))
+        .slice(-MAX_FAILURE_DIGESTS);
+
+      if (failures.length > 0) {
+        logHook("session-end", `Queueing ${failures.length} tool failure digests`);
+        enqueueMessages(config, failures.map(({ digest, timestamp }) => ({
+          sessionName,
+          peerName: config.aiPeer,
+          content: formatToolFailure(digest),
+          createdAt: timestamp,
+          cwd,
+          metadata: {
+            instance_id: instanceId || undefined,
+            type: "tool_failure",
+            tool: digest.tool,
+            exit_code: digest.exitCode,
+            failed_tests: digest.failedTests.length || undefined,
+            session_affinity: sessionName,
+          },
+        })));
+        recordUploadedEntries(ledgerKey, failures.map((f) => getToolResultEntryKey(f.toolUseId)));
+      }
+    }
+
+    // =====================================================
+    // Step 2: Generate and save claude self-summary
     // =====================================================
     const workItems = extractWorkItems(assistantMessages.map((m) => m.content));
     const existingContext = loadClaudeLocalContext();
@@ -322,23 +343,32 @@ export async function handleSessionEnd(): Promise<void> {
     saveClaudeLocalContext(newSummary + recentActivity);
 
     // =====================================================
-    // Step 4: Log session end marker
+    // Step 3: Queue session end marker
     // =====================================================
-    await session.addMessages([
-      aiPeer.message(
-        `[Session ended] Reason: ${reason}, Messages: ${transcriptMessages.length}, Time: ${new Date().toISOString()}`,
-        {
-          createdAt: new Date().toISOString(),
-          metadata: {
-            instance_id: instanceId || undefined,
-            session_affinity: sessionName,
-          },
-        }
-      ),
-    ]);
+    enqueueMessages(config, [{
+      sessionName,
+      peerName: config.aiPeer,
+      content: `[Session ended] Reason: ${reason}, Messages: ${transcriptMessages.length}, Time: ${new Date().toISOString()}`,
+      cwd,
+      metadata: {
+        instance_id: instanceId || undefined,
+        session_affinity: sessionName,
+      },
+    }]);
+
+    // =====================================================
+    // Step 4: Drain the outbox — this session's messages plus anything
+    // earlier hooks couldn't upload. Failures stay queued for next time.
+    // =====================================================
+    const drained = await drainOutbox(config, { source: "session-end", timeoutMs: 20000 });
 
     const meaningfulCount = assistantMessages.filter(m => m.isMeaningful).length;
-    logHook("session-end", `Session saved: ${assistantMessages.length} assistant msgs (${meaningfulCount} meaningful), ${queuedMessages.length} queued msgs`);
+    logHook("session-end", `Session saved: ${assistantMessages.length} assistant msgs (${meaningfulCount} meaningful), outbox: ${drained.sent} sent, ${drained.failed + drained.pending} still queued`);
+
+    // =====================================================
+    // Step 5: Prefetch the next session start in this directory
+    // =====================================================
+    await requestPrefetch(config, { cwd, session_id: instanceId || undefined, source: "session-end" }, 0);
     process.exit(0);
   } catch (error) {
     logHook("session-end", `Error: ${error}`, { error: String(error) });
@@ -1,21 +1,35 @@
 import { Honcho } from "@honcho-ai/sdk";
-import { loadConfig, getSessionForPath, setSessionForPath, getSessionName, getHonchoClientOptions, isPluginEnabled, getCachedStdin, getLinkedWorkspaces, getHonchoBaseUrl } from "../config.js";
+import { loadConfig, getSessionForPath, setSessionForPath, findProjectConfig, getSessionName, getHonchoClientOptions, getCachedStdin, getContextBudgetConfig, getContextRefreshConfig } from "../config.js";
 import {
-  setCachedUserContext,
-  setCachedClaudeContext,
   setCachedSessionId,
+  getCachedStartupSections,
   loadClaudeLocalContext,
   resetMessageCount,
+  getContextCacheKey,
   setClaudeInstanceId,
   getCachedGitState,
   setCachedGitState,
   detectGitChanges,
+  getInjectedItemKey,
+  resetInjectedItems,
 } from "../cache.js";
+import { enqueueMessages, drainOutbox } from "../outbox.js";
+import { assembleContext, type ContextSection } from "../assembler.js";
+import {
+  fetchMemorySections,
+  buildDialecticHints,
+  fillFromStartupCache,
+  configureSessionPeers,
+  spawnPrefetch,
+  formatAge,
+} from "../startup.js";
+import { getPolicy } from "../policy.js";
 import { Spinner } from "../spinner.js";
 import { displayHonchoStartup } from "../pixel.js";
 import { captureGitState, getRecentCommits, isGitRepo, inferFeatureContext } from "../git.js";
-import { logHook, logApiCall, logCache, logFlow, logAsync, setLogContext } from "../log.js";
-import { verboseApiResult, verboseList, clearVerboseLog } from "../visual.js";
+import { parseConclusions } from "../rerank.js";
+import { logHook, logCache, logFlow, setLogContext } from "../log.js";
+import { clearVerboseLog } from "../visual.js";
 
 
 interface HookInput {
@@ -26,11 +40,31 @@ interface HookInput {
   workspace_roots?: string[];
 }
 
-function formatRepresentation(rep: any): string {
-  if (typeof rep === "string" && rep.trim()) {
-    return rep;
+/** Fit the collected sections into the session-start token budget */
+function assembleSessionContext(sections: ContextSection[]): string[] {
+  const budget = getContextBudgetConfig();
+  const assembled = assembleContext(sections, {
+    totalTokens: budget.sessionStartTokens,
+    overrides: budget.sections,
+  });
+  logFlow("assemble", `${assembled.parts.length} sections, ~${assembled.tokens} tokens (budget ${budget.sessionStartTokens || "none"})`, {
+    dropped: assembled.dropped,
+    truncated: assembled.truncated,
+    duplicatesRemoved: assembled.duplicatesRemoved,
+  });
+  return assembled.parts;
+}
+
+/**
+ * Print the memory block. Its lines become the session's injection ledger,
+ * so the user-prompt hook doesn't repeat conclusions shown here.
+ */
+function printSessionContext(label: string, sections: ContextSection[], cacheKey: string): void {
+  const memory = assembleSessionContext(sections).join("\n\n");
+  console.log(`\n[${label}]\n\n${memory}`);
+  if (getContextRefreshConfig().skipInjected) {
+    resetInjectedItems(cacheKey, parseConclusions(memory, "global").map((c) => getInjectedItemKey(c.text)));
   }
-  return "";
 }
 
 export async function handleSessionStart(): Promise<void> {
@@ -40,11 +74,6 @@ export async function handleSessionStart(): Promise<void> {
     process.exit(1);
   }
 
-  // Early exit if plugin is disabled
-  if (!isPluginEnabled()) {
-    process.exit(0);
-  }
-
   let hookInput: HookInput = {};
   try {
     const input = getCachedStdin() ?? await Bun.stdin.text();
@@ -58,6 +87,16 @@ export async function handleSessionStart(): Promise<void> {
   const cwd = hookInput.workspace_roots?.[0] || hookInput.cwd || process.cwd();
   const claudeInstanceId = hookInput.session_id;
 
+  // Early exit if plugin is disabled or this directory is excluded entirely
+  const policy = getPolicy(cwd, config, claudeInstanceId);
+  if (!policy.capture && !policy.context) {
+    if (policy.reason !== "plugin disabled") {
+      logHook("session-start", `Skipped: ${policy.reason}`);
+      console.log(`[honcho] memory off in this directory (${policy.reason})`);
+    }
+    process.exit(0);
+  }
+
   // Store Claude's instance ID for parallel session support
   // Global write kept for backward compat (post-tool-use, MCP server, etc.)
   if (claudeInstanceId) {
@@ -72,7 +111,8 @@ export async function handleSessionStart(): Promise<void> {
   clearVerboseLog();
 
   // Reset message count for this session (for threshold-based knowledge graph refresh)
-  resetMessageCount();
+  const cacheKey = getContextCacheKey(sessionName, claudeInstanceId);
+  resetMessageCount(cacheKey);
 
   // Capture git state (before any API calls for speed)
   const previousGitState = getCachedGitState(cwd);
@@ -99,72 +139,61 @@ export async function handleSessionStart(): Promise<void> {
   const spinner = new Spinner({ style: "neural" });
   spinner.start("loading memory");
 
+  // Collected memory sections (declared here so a failure can still output what loaded)
+  const contextParts: ContextSection[] = [];
+
   try {
     logHook("session-start", `Starting session in ${cwd}`, { branch: currentGitState?.branch });
     logFlow("init", `workspace: ${config.workspace}, peers: ${config.peerName}/${config.aiPeer}`);
 
-    // New SDK: workspace is provided at construction time
-    const honcho = new Honcho(getHonchoClientOptions(config));
-
-    // Step 1-3: Get session and peers using new fluent API (lazily created)
-    spinner.update("Loading session");
-    const sessionName = getSessionName(cwd, claudeInstanceId);
-
-    const startTime = Date.now();
-    // New SDK: session() and peer() are async and create lazily
-    const [session, userPeer, aiPeer] = await Promise.all([
-      honcho.session(sessionName),
-      honcho.peer(config.peerName),
-      honcho.peer(config.aiPeer),
-    ]);
-    logApiCall("honcho.session/peer", "GET", `session + 2 peers`, Date.now() - startTime, true);
-
     // Write CWD to cache so MCP server can resolve the project directory
-    // Also stores instanceId per-cwd to prevent cross-session collision
-    setCachedSessionId(cwd, sessionName, session.id, claudeInstanceId);
-
-    // Step 4: Set session peer configuration (fire-and-forget)
-    // New SDK uses session.setPeerConfiguration()
-    Promise.all([
-      session.setPeerConfiguration(userPeer, { observeMe: true, observeOthers: false }),
-      session.setPeerConfiguration(aiPeer, { observeMe: false, observeOthers: true }),
-    ]).catch((e) => logHook("session-start", `Set peers failed: ${e}`));
+    // Also stores instanceId per-cwd to prevent cross-session collision.
+    // Session IDs are the session name, so this doesn't wait on the API.
+    setCachedSessionId(cwd, sessionName, sessionName, claudeInstanceId);
 
     // Only persist session names for per-directory strategy (stable names).
     // Dynamic strategies (git-branch, chat-instance) change per session,
-    // so locking them as overrides defeats the purpose.
-    if (!getSessionForPath(cwd) && (!config.sessionStrategy || config.sessionStrategy === "per-directory")) {
+    // so locking them as overrides defeats the purpose. A session fixed by
+    // the project's .honcho.json is never copied into the global config.
+    if (!getSessionForPath(cwd) && !findProjectConfig(cwd)?.config.session && (!config.sessionStrategy || config.sessionStrategy === "per-directory")) {
       setSessionForPath(cwd, sessionName);
     }
 
-    // Upload git changes as observations (fire-and-forget)
+    // Queue git changes as observations
     // These capture external activity that happened OUTSIDE of Claude sessions
-    if (gitChanges.length > 0) {
-      const gitObservations = gitChanges
+    if (gitChanges.length > 0 && policy.capture) {
+      enqueueMessages(config, gitChanges
         .filter((c) => c.type !== "initial") // Don't log initial state as observation
-        .map((change) =>
-          userPeer.message(`[Git External] ${change.description}`, {
-            metadata: {
-              type: "git_change",
-              change_type: change.type,
-              from: change.from,
-              to: change.to,
-              external: true,
-            },
-          })
-        );
-
-      if (gitObservations.length > 0) {
-        session.addMessages(gitObservations).catch((e) =>
-          logHook("session-start", `Git observations upload failed: ${e}`)
-        );
-      }
+        .map((change) => ({
+          sessionName,
+          peerName: config.peerName,
+          content: `[Git External] ${change.description}`,
+          cwd,
+          metadata: {
+            type: "git_change",
+            change_type: change.type,
+            from: change.from,
+            to: change.to,
+            external: true,
+          },
+        }))
+      );
     }
 
-    // Step 5: PARALLEL fetch all context (the big optimization!)
-    spinner.update("Fetching memory context");
-    logAsync("context-fetch", "Starting 5 parallel context fetches");
-    const contextParts: string[] = [];
+    if (!policy.context) {
+      await drainOutbox(config, { source: "session-start" });
+      spinner.stop();
+      logHook("session-start", `Context skipped: ${policy.reason}`);
+      console.log(`\n[honcho] context injection off in this directory (${policy.reason})`);
+      process.exit(0);
+    }
+
+    // A bundle prefetched by Stop/SessionEnd (or left by the last session
+    // start here) is printed at once and refreshed in the background
+    const refreshConfig = getContextRefreshConfig();
+    const bundle = refreshConfig.prefetch !== "off" ? getCachedStartupSections(cwd, config.workspace) : {};
+    const bundleIds = Object.keys(bundle);
+    const bundleAge = bundleIds.length > 0 ? Date.now() - Math.min(...Object.values(bundle).map((s) => s.fetchedAt)) : 0;
 
     // Header with git context
     let headerContent = `## Honcho Memory System Active
@@ -182,6 +211,10 @@ export async function handleSessionStart(): Promise<void> {
       }
     }
 
+    if (bundleIds.length > 0 && bundleAge >= refreshConfig.ttlSeconds! * 1000) {
+      headerContent += `\n- Memory: prefetched ${formatAge(bundleAge)}, refreshing in background`;
+    }
+
     // Add inferred feature context to header
     if (featureContext && featureContext.confidence !== "low") {
       headerContent += `\n- Feature: ${featureContext.type} - ${featureContext.description}`;
@@ -190,7 +223,7 @@ export async function handleSessionStart(): Promise<void> {
       }
     }
 
-    contextParts.push(headerContent);
+    contextParts.push({ id: "header", title: "", body: headerContent, required: true });
 
     // Add inferred feature context section
     if (featureContext) {
@@ -206,214 +239,79 @@ export async function handleSessionStart(): Promise<void> {
         featureSection.push(`- Code Areas: ${featureContext.areas.join(", ")}`);
       }
       featureSection.push(`- Confidence: ${featureContext.confidence}`);
-      contextParts.push(featureSection.join("\n"));
+      contextParts.push({ id: "feature", title: featureSection[0], body: featureSection.slice(1).join("\n"), priority: 40 });
     }
 
     // Add git changes section if external changes detected
     if (gitChanges.length > 0) {
       const changeDescriptions = gitChanges.map((c) => `- ${c.description}`).join("\n");
-      contextParts.push(`## Git Activity Since Last Session\n${changeDescriptions}`);
+      contextParts.push({ id: "git", title: "## Git Activity Since Last Session", body: changeDescriptions, priority: 55 });
     }
 
     // Load local claude context immediately (instant, no API call)
     const localClaudeContext = loadClaudeLocalContext();
     if (localClaudeContext) {
-      contextParts.push(`## Local Context (What I Was Working On)\n${localClaudeContext.slice(0, 2000)}`);
-    }
-
-    // Build context-aware dialectic queries
-    const branchContext = currentGitState ? ` They are currently on git branch '${currentGitState.branch}'.` : "";
-    const changeContext = gitChanges.length > 0 && gitChanges[0].type === "branch_switch"
-      ? ` Note: they just switched branches from '${gitChanges[0].from}' to '${gitChanges[0].to}'.`
-      : "";
-    const featureHint = featureContext && featureContext.confidence !== "low"
-      ? ` Current work appears to be: ${featureContext.type} - ${featureContext.description}.`
-      : "";
-
-    // Parallel API calls for rich context
-    const fetchStart = Date.now();
-    const [userContextResult, claudeContextResult, summariesResult, userChatResult, claudeChatResult] =
-      await Promise.allSettled([
-        // 1. Get user's context (SESSION-SCOPED for relevance)
-        userPeer.context({
-          maxConclusions: 25,
-          includeMostFrequent: true,
-        }),
-        // 2. Get claude's context (self-awareness, also session-scoped)
-        aiPeer.context({
-          maxConclusions: 15,
-          includeMostFrequent: true,
-        }),
-        // 3. Get session summaries
-        session.summaries(),
-        // 4. Dialectic: Ask about user (context-enhanced)
-        userPeer.chat(
-          `Summarize what you know about ${config.peerName} in 2-3 sentences. Focus on their preferences, current projects, and working style.${branchContext}${changeContext}${featureHint}`,
-          { session }
-        ),
-        // 5. Dialectic: Ask about claude (self-reflection, context-enhanced)
-        aiPeer.chat(
-          `What has ${config.aiPeer} been working on recently?${branchContext}${featureHint} Summarize the AI assistant's recent activities and focus areas relevant to the current work context.`,
-          { session }
-        ),
-      ]);
-
-    // Log async results
-    const fetchDuration = Date.now() - fetchStart;
-    const asyncResults = [
-      { name: "peer.context(user)", success: userContextResult.status === "fulfilled" },
-      { name: "peer.context(claude)", success: claudeContextResult.status === "fulfilled" },
-      { name: "session.summaries", success: summariesResult.status === "fulfilled" },
-      { name: "peer.chat(user)", success: userChatResult.status === "fulfilled" },
-      { name: "peer.chat(claude)", success: claudeChatResult.status === "fulfilled" },
-    ];
-    const successCount = asyncResults.filter(r => r.success).length;
-    logAsync("context-fetch", `Completed: ${successCount}/5 succeeded in ${fetchDuration}ms`, asyncResults);
-
-    // ========== VERBOSE OUTPUT (file-based) ==========
-    // Written to ~/.honcho/verbose.log — NOT shown in Ctrl+O.
-    // SessionStart stdout is always visible to Claude, so we can't
-    // use stdout for debug data. View with: tail -f ~/.honcho/verbose.log
-    if (userContextResult.status === "fulfilled" && userContextResult.value) {
-      const ctx = userContextResult.value as any;
-      verboseApiResult("peer.context(user) → representation", ctx.representation);
-      verboseList("peer.context(user) → peerCard", ctx.peerCard);
-    }
-    if (claudeContextResult.status === "fulfilled" && claudeContextResult.value) {
-      const ctx = claudeContextResult.value as any;
-      verboseApiResult("peer.context(claude) → representation", ctx.representation);
-    }
-    if (summariesResult.status === "fulfilled" && summariesResult.value) {
-      const s = summariesResult.value as any;
-      const short = s.shortSummary;
-      verboseApiResult("session.summaries() → shortSummary", short?.content);
-    }
-    if (userChatResult.status === "fulfilled") {
-      const chatVal = typeof userChatResult.value === "string" ? userChatResult.value : (userChatResult.value as any)?.content;
-      verboseApiResult(`peer.chat(user) → "${config.peerName}"`, chatVal);
+      contextParts.push({
+        id: "local",
+        title: "## Local Context (What I Was Working On)",
+        body: localClaudeContext,
+        priority: 30,
+        maxTokens: 500,
+      });
     }
-    if (claudeChatResult.status === "fulfilled") {
-      const chatVal = typeof claudeChatResult.value === "string" ? claudeChatResult.value : (claudeChatResult.value as any)?.content;
-      verboseApiResult(`peer.chat(claude) → "${config.aiPeer}"`, chatVal);
-    }
-
-    // ========== CONSOLIDATED CONTEXT OUTPUT ==========
-    // Reduced from 6+ overlapping sections to 2-3 focused sections
-    // (as recommended in FEEDBACK-FROM-CLAUDE.md)
-
-    // Section 1: User Profile + Conclusions (CONSOLIDATED)
-    // Combines: peerCard and representation
-    // Skips redundant "AI Summary" dialectic if we have good conclusions
-    if (userContextResult.status === "fulfilled" && userContextResult.value) {
-      const context = userContextResult.value as any;
-      setCachedUserContext(context); // Cache for user-prompt hook
-      const rep = context.representation;
-      const repConclusionCount = typeof rep === "string" ? rep.split("\n").filter((l: string) => l.trim() && !l.startsWith("#")).length : 0;
-      logCache("write", "userContext", `${repConclusionCount} conclusions`);
-
-      const userSection: string[] = [];
-
-      const peerCard = context.peerCard;
-      if (peerCard && peerCard.length > 0) {
-        userSection.push(peerCard.join("\n"));
-      }
 
-      // Add conclusions (session-scoped, so should be relevant)
-      if (rep) {
-        const repText = formatRepresentation(rep);
-        if (repText) {
-          userSection.push(repText);
-        }
-      }
-
-      if (userSection.length > 0) {
-        contextParts.push(`## ${config.peerName}'s Profile\n${userSection.join("\n\n")}`);
+    if (bundleIds.length > 0) {
+      for (const [id, section] of Object.entries(bundle)) {
+        contextParts.push({ id, title: section.title, body: section.body, priority: section.priority, minTokens: section.minTokens });
       }
+      // The background process also sets this session's peer configuration,
+      // fills the user-prompt context cache and drains the outbox
+      spawnPrefetch({ cwd, session_id: claudeInstanceId, source: "session-start" });
+      spinner.stop();
+      logFlow("complete", `Memory loaded from prefetch: ${bundleIds.length} sections, ${formatAge(bundleAge)}`);
+      printSessionContext(`${config.aiPeer}/Honcho Memory Loaded`, contextParts, cacheKey);
+      process.exit(0);
     }
 
-    // Section 2: Recent Work (CONSOLIDATED)
-    // Combines: claude conclusions, session summary, self-reflection
-    // Prioritizes concrete work items over vague summaries
-    if (claudeContextResult.status === "fulfilled" && claudeContextResult.value) {
-      const context = claudeContextResult.value as any;
-      setCachedClaudeContext(context); // Cache
-      const rep = context.representation;
-      const claudeRepConclusionCount = typeof rep === "string" ? rep.split("\n").filter((l: string) => l.trim() && !l.startsWith("#")).length : 0;
-      logCache("write", "claudeContext", `${claudeRepConclusionCount} conclusions`);
-
-      if (rep) {
-        const repText = formatRepresentation(rep);
-        if (repText) {
-          contextParts.push(`## ${config.aiPeer}'s Work History (Self-Context)\n${repText}`);
-        }
-      }
-    }
+    // No bundle yet: fetch now, within the deadline
+    // New SDK: workspace is provided at construction time
+    const honcho = new Honcho(getHonchoClientOptions(config));
+    const deadlineMs = refreshConfig.startupDeadlineSeconds! * 1000;
 
-    // Session summary - only include SHORT summary (skip Extended History to reduce noise)
-    if (summariesResult.status === "fulfilled" && summariesResult.value) {
-      const s = summariesResult.value as any;
-      const shortSummary = s.shortSummary;
-      if (shortSummary?.content) {
-        contextParts.push(`## Recent Session Summary\n${shortSummary.content}`);
-      }
-      // Skip long_summary - it overlaps with conclusions and adds too many tokens
-    }
+    // Drain the outbox alongside the context fetches (awaited before exit)
+    const drainPromise = drainOutbox(config, { source: "session-start", timeoutMs: deadlineMs });
 
-    // AI dialectic summaries - always include when available
-    // Chat result may be a string or {content: string}
-    const userChatContent = userChatResult.status === "fulfilled"
-      ? (typeof userChatResult.value === "string" ? userChatResult.value : (userChatResult.value as any)?.content)
-      : null;
-    if (userChatContent) {
-      contextParts.push(`## AI Summary of ${config.peerName}\n${userChatContent}`);
-    }
+    // Set session peer configuration (fire-and-forget)
+    configureSessionPeers(honcho, config, sessionName)
+      .catch((e) => logHook("session-start", `Set peers failed: ${e}`));
 
-    const claudeChatContent = claudeChatResult.status === "fulfilled"
-      ? (typeof claudeChatResult.value === "string" ? claudeChatResult.value : (claudeChatResult.value as any)?.content)
-      : null;
-    if (claudeChatContent) {
-      contextParts.push(`## AI Self-Reflection (What ${config.aiPeer} Has Been Doing)\n${claudeChatContent}`);
+    // PARALLEL fetch all context, linked workspaces included, in one wave
+    spinner.update("Fetching memory context");
+    const { sections, missingIds, successCount } = await fetchMemorySections(config, {
+      honcho,
+      sessionName,
+      hints: buildDialecticHints(currentGitState, gitChanges, featureContext),
+      deadline: Date.now() + deadlineMs,
+      cacheKey,
+    });
+    contextParts.push(...sections);
+
+    // Sections whose fetch failed or missed the deadline come from the cache
+    const stale = fillFromStartupCache(cwd, config.workspace, sections, missingIds);
+    if (stale.length > 0) {
+      contextParts.push(...stale);
+      logCache("hit", "startupSections", `${stale.length} cached: ${stale.map(s => s.id).join(", ")}`);
     }
 
-    // Fetch context from linked workspaces (reads only, writes stay local)
-    const linkedWorkspaces = getLinkedWorkspaces();
-    if (linkedWorkspaces.length > 0) {
-      spinner.update("Fetching linked context");
-      logAsync("linked-context", `Fetching from ${linkedWorkspaces.length} linked workspace(s): ${linkedWorkspaces.join(", ")}`);
-
-      const linkedResults = await Promise.allSettled(
-        linkedWorkspaces.map(async (ws) => {
-          const linkedClient = new Honcho({
-            apiKey: config.apiKey,
-            baseUrl: getHonchoBaseUrl(config),
-            workspaceId: ws,
-          });
-          const linkedPeer = await linkedClient.peer(config.peerName);
-          return { ws, context: await linkedPeer.context({ maxConclusions: 10, includeMostFrequent: true }) };
-        })
-      );
-
-      for (const result of linkedResults) {
-        if (result.status === "fulfilled" && result.value.context) {
-          const { ws, context } = result.value;
-          const rep = formatRepresentation((context as any).representation);
-          if (rep) {
-            contextParts.push(`## Linked Context (${ws})\n${rep}`);
-          }
-          logAsync("linked-context", `${ws}: loaded`);
-        } else if (result.status === "rejected") {
-          logAsync("linked-context", `Failed: ${result.reason}`);
-        }
-      }
-    }
+    await drainPromise;
 
     // Stop spinner
     spinner.stop();
 
     logFlow("complete", `Memory loaded: ${contextParts.length} sections, ${successCount}/5 API calls succeeded`);
 
-    // Output all context
-    console.log(`\n[${config.aiPeer}/Honcho Memory Loaded]\n\n${contextParts.join("\n\n")}`);
+    // Output all context, fitted to the token budget
+    printSessionContext(`${config.aiPeer}/Honcho Memory Loaded`, contextParts, cacheKey);
     process.exit(0);
   } catch (error) {
     logHook("session-start", `Error: ${error}`, { error: String(error) });
@@ -421,7 +319,7 @@ export async function handleSessionStart(): Promise<void> {
     // Degrade gracefully — workspace info was already shown above.
     // Output whatever context we managed to collect.
     if (contextParts.length > 0) {
-      console.log(`\n[${config.aiPeer}/Honcho Memory (partial)]\n\n${contextParts.join("\n\n")}`);
+      printSessionContext(`${config.aiPeer}/Honcho Memory (partial)`, contextParts, cacheKey);
     }
     process.exit(0);
   }
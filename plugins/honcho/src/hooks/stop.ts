@@ -1,8 +1,18 @@
-import { Honcho } from "@honcho-ai/sdk";
-import { loadConfig, getSessionForPath, getSessionName, getHonchoClientOptions, isPluginEnabled, getCachedStdin } from "../config.js";
-import { existsSync, readFileSync } from "fs";
-import { getInstanceIdForCwd } from "../cache.js";
-import { logHook, logApiCall, setLogContext } from "../log.js";
+import { loadConfig, getSessionForPath, getSessionName, getCachedStdin, getMessageUploadConfig, getContextRefreshConfig, type HonchoCLAUDEConfig } from "../config.js";
+import {
+  getInstanceIdForCwd,
+  chunkContent,
+  getContextCacheKey,
+  getTranscriptEntryKeys,
+  isEntryUploaded,
+  recordUploadedEntries,
+} from "../cache.js";
+import { enqueueMessages, drainOutbox } from "../outbox.js";
+import { readNewTranscriptEntries, getEntryRole, getEntryText } from "../transcript.js";
+import { prepareUpload } from "../summarize.js";
+import { requestPrefetch } from "../startup.js";
+import { getPolicy } from "../policy.js";
+import { logHook, setLogContext } from "../log.js";
 import { visStopMessage } from "../visual.js";
 
 interface HookInput {
@@ -13,16 +23,6 @@ interface HookInput {
   workspace_roots?: string[];
 }
 
-interface TranscriptEntry {
-  type?: string;
-  role?: string;
-  message?: {
-    role?: string;
-    content: string | Array<{ type: string; text?: string; name?: string; input?: any }>;
-  };
-  content?: string | Array<{ type: string; text?: string }>;
-}
-
 /**
  * Check if content is meaningful (not just tool announcements)
  */
@@ -42,47 +42,27 @@ function isMeaningfulContent(content: string): boolean {
   return true;
 }
 
+// Enough for the last few turns when a transcript is first seen mid-session
+const INITIAL_TAIL_BYTES = 256 * 1024;
+
 /**
- * Extract the last assistant message from the transcript
+ * Extract the last assistant message appended since the previous stop
  */
-function getLastAssistantMessage(transcriptPath: string): string | null {
-  if (!transcriptPath || !existsSync(transcriptPath)) {
+function getLastAssistantMessage(transcriptPath: string): { text: string; uuid?: string } | null {
+  if (!transcriptPath) {
     return null;
   }
 
   try {
-    const content = readFileSync(transcriptPath, "utf-8");
-    const lines = content.trim().split("\n").filter((line) => line.trim());
+    const { entries } = readNewTranscriptEntries(transcriptPath, "stop", { initialTailBytes: INITIAL_TAIL_BYTES });
 
     // Read from the end to find the last assistant message
-    for (let i = lines.length - 1; i >= 0; i--) {
-      try {
-        const entry: TranscriptEntry = JSON.parse(lines[i]);
-
-        const entryType = entry.type || entry.role;
-        const messageContent = entry.message?.content || entry.content;
-
-        if (entryType === "assistant" && messageContent) {
-          let assistantContent = "";
-
-          if (typeof messageContent === "string") {
-            assistantContent = messageContent;
-          } else if (Array.isArray(messageContent)) {
-            // Extract text blocks only (skip tool_use blocks)
-            const textBlocks = messageContent
-              .filter((p) => p.type === "text" && p.text)
-              .map((p) => p.text!)
-              .join("\n\n");
-
-            assistantContent = textBlocks;
-          }
-
-          if (assistantContent && assistantContent.trim()) {
-            return assistantContent;
-          }
-        }
-      } catch {
-        continue;
+    for (let i = entries.length - 1; i >= 0; i--) {
+      if (getEntryRole(entries[i]) !== "assistant") continue;
+      // Text blocks only (tool_use blocks are captured by post-tool-use)
+      const assistantContent = getEntryText(entries[i]);
+      if (assistantContent.trim()) {
+        return { text: assistantContent, uuid: entries[i].uuid };
       }
     }
   } catch {
@@ -92,22 +72,20 @@ function getLastAssistantMessage(transcriptPath: string): string | null {
   return null;
 }
 
+/**
+ * Keep the next session start's bundle warm. Stop fires after every
+ * response, so it prefetches at most once per context TTL.
+ */
+async function prefetchNextSession(config: HonchoCLAUDEConfig, cwd: string, instanceId: string | null): Promise<void> {
+  await requestPrefetch(config, { cwd, session_id: instanceId || undefined, source: "stop" }, getContextRefreshConfig().ttlSeconds!);
+}
+
 export async function handleStop(): Promise<void> {
   const config = loadConfig();
   if (!config) {
     process.exit(0);
   }
 
-  // Early exit if plugin is disabled
-  if (!isPluginEnabled()) {
-    process.exit(0);
-  }
-
-  // Skip if message saving is disabled
-  if (config.saveMessages === false) {
-    process.exit(0);
-  }
-
   let hookInput: HookInput = {};
   try {
     const input = getCachedStdin() ?? await Bun.stdin.text();
@@ -125,50 +103,78 @@ export async function handleStop(): Promise<void> {
   }
 
   const cwd = hookInput.workspace_roots?.[0] || hookInput.cwd || process.cwd();
-  const transcriptPath = hookInput.transcript_path;
+
   const instanceId = hookInput.session_id || getInstanceIdForCwd(cwd);
+
+  // Nothing to upload if message saving is disabled, the plugin is disabled,
+  // capture is off for this directory, or this session is incognito. The
+  // next session start still gets its prefetch wherever context is allowed.
+  const policy = getPolicy(cwd, config, instanceId);
+  if (config.saveMessages === false || !policy.capture) {
+    if (policy.context) await prefetchNextSession(config, cwd, instanceId);
+    process.exit(0);
+  }
+
+  const transcriptPath = hookInput.transcript_path;
   const sessionName = getSessionName(cwd, instanceId || undefined);
 
   // Set log context
   setLogContext(cwd, sessionName);
 
   // Get the last assistant message from the transcript
-  const lastMessage = getLastAssistantMessage(transcriptPath || "");
+  const lastEntry = getLastAssistantMessage(transcriptPath || "");
+  const lastMessage = lastEntry?.text;
 
-  if (!lastMessage || !isMeaningfulContent(lastMessage)) {
+  if (!lastEntry || !lastMessage || !isMeaningfulContent(lastMessage)) {
     logHook("stop", `Skipping (no meaningful content)`);
     // Don't show systemMessage for skips — too noisy since this fires every turn
+    await drainOutbox(config, { source: "stop" });
+    await prefetchNextSession(config, cwd, instanceId);
+    process.exit(0);
+  }
+
+  // Skip if this entry was already uploaded (the ledger is shared with session-end)
+  const ledgerKey = getContextCacheKey(sessionName, instanceId);
+  const entryKeys = getTranscriptEntryKeys(lastMessage, lastEntry.uuid);
+  if (isEntryUploaded(ledgerKey, entryKeys)) {
+    logHook("stop", `Skipping (response already uploaded)`);
+    await drainOutbox(config, { source: "stop" });
+    await prefetchNextSession(config, cwd, instanceId);
     process.exit(0);
   }
 
   logHook("stop", `Capturing assistant response (${lastMessage.length} chars)`);
 
-  try {
-    const honcho = new Honcho(getHonchoClientOptions(config));
-
-    // Get session and peer using new fluent API
-    const session = await honcho.session(sessionName);
-    const aiPeer = await honcho.peer(config.aiPeer);
-
-    // Upload the assistant response
-    logApiCall("session.addMessages", "POST", `assistant response (${lastMessage.length} chars)`);
-
-    await session.addMessages([
-      aiPeer.message(lastMessage.slice(0, 3000), {
-        createdAt: new Date().toISOString(),
-        metadata: {
-          instance_id: instanceId || undefined,
-          type: "assistant_response",
-          session_affinity: sessionName,
-        },
-      }),
-    ]);
+  // Apply messageUpload limits (truncation / local summary), then chunk
+  const prepared = prepareUpload(lastMessage, "assistant", getMessageUploadConfig());
+  if (prepared.truncation) {
+    logHook("stop", `Upload limits applied: ${prepared.truncation.applied.join("+")} (${prepared.truncation.original_tokens} -> ${prepared.truncation.tokens} tokens)`);
+  }
 
+  enqueueMessages(config, chunkContent(prepared.content).map((chunk) => ({
+    sessionName,
+    peerName: config.aiPeer,
+    content: chunk,
+    cwd,
+    metadata: {
+      instance_id: instanceId || undefined,
+      type: "assistant_response",
+      session_affinity: sessionName,
+      truncation: prepared.truncation,
+    },
+  })));
+  recordUploadedEntries(ledgerKey, entryKeys);
+
+  // Upload the assistant response (plus anything still waiting in the outbox)
+  const { sent, failed } = await drainOutbox(config, { source: "stop" });
+  if (failed > 0 && sent === 0) {
+    logHook("stop", `Upload deferred (queued for retry)`);
+    visStopMessage("warn", `response queued (offline)`);
+  } else {
     logHook("stop", `Assistant response saved`);
     visStopMessage("out", `saved response (${lastMessage.length} chars)`);
-  } catch (error) {
-    logHook("stop", `Upload failed: ${error}`, { error: String(error) });
   }
 
+  await prefetchNextSession(config, cwd, instanceId);
   process.exit(0);
 }
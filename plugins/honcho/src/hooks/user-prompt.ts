@@ -1,5 +1,5 @@
 import { Honcho } from "@honcho-ai/sdk";
-import { loadConfig, getSessionForPath, getSessionName, getHonchoClientOptions, isPluginEnabled, getCachedStdin, getLinkedWorkspaces, getHonchoBaseUrl } from "../config.js";
+import { loadConfig, getSessionForPath, getSessionName, getHonchoClientOptions, getCachedStdin, getLinkedWorkspaces, getMessageUploadConfig, getSearchQueryConfig, getRelevanceConfig, getContextRefreshConfig, type HonchoCLAUDEConfig } from "../config.js";
 import {
   getCachedUserContext,
   getStaleCachedUserContext,
@@ -8,11 +8,24 @@ import {
   incrementMessageCount,
   shouldRefreshKnowledgeGraph,
   markKnowledgeGraphRefreshed,
+  getContextCacheKey,
   getInstanceIdForCwd,
+  getRecentPrompts,
+  pushRecentPrompt,
+  getInjectedItems,
+  getInjectedItemKey,
+  recordInjectedItems,
   chunkContent,
+  type CachedUserContext,
 } from "../cache.js";
-import { logHook, logApiCall, logCache, setLogContext } from "../log.js";
-import { visContextLine, visSkipMessage, addSystemMessage, verboseApiResult, verboseList } from "../visual.js";
+import { enqueueMessages, drainOutbox } from "../outbox.js";
+import { prepareUpload } from "../summarize.js";
+import { getPolicy } from "../policy.js";
+import { redactText } from "../redact.js";
+import { buildSearchQuery, loadRepoVocabulary, type QuerySource, type SearchQuery } from "../query.js";
+import { parseConclusions, rerankConclusions, type Conclusion } from "../rerank.js";
+import { logHook, logApiCall, logCache, logFlow, setLogContext } from "../log.js";
+import { visContextLine, visSkipLine, visIncognitoLine, addSystemMessage, verboseApiResult, verboseList } from "../visual.js";
 
 interface HookInput {
   prompt?: string;
@@ -27,41 +40,6 @@ const SKIP_CONTEXT_PATTERNS = [
   /^\//, // slash commands
 ];
 
-/**
- * Extract meaningful topics from a prompt for semantic search
- * Instead of crude truncation (prompt.slice(0,500)), extract entities and terms
- */
-function extractTopics(prompt: string): string[] {
-  const topics: string[] = [];
-
-  // Extract file paths (high signal)
-  const filePaths = prompt.match(/[\w\-\/\.]+\.(ts|tsx|js|jsx|py|rs|go|md|json|yaml|yml|toml|sql)/gi) || [];
-  topics.push(...filePaths.slice(0, 5));
-
-  // Extract quoted strings (explicit references)
-  const quoted = prompt.match(/"([^"]+)"/g)?.map(q => q.slice(1, -1)) || [];
-  topics.push(...quoted.slice(0, 3));
-
-  // Extract technical terms (common frameworks/tools)
-  const techTerms = prompt.match(/\b(react|vue|svelte|angular|elysia|express|fastapi|django|flask|postgres|redis|docker|kubernetes|bun|node|deno|typescript|python|rust|go|graphql|rest|api|auth|oauth|jwt|stripe|webhook)\b/gi) || [];
-  topics.push(...[...new Set(techTerms.map(t => t.toLowerCase()))].slice(0, 5));
-
-  // Extract error patterns (debugging context)
-  const errors = prompt.match(/error[:\s]+[\w\s]+|failed[:\s]+[\w\s]+|exception[:\s]+[\w\s]+/gi) || [];
-  topics.push(...errors.slice(0, 2));
-
-  // If we found meaningful topics, use them; otherwise fall back to first 200 chars
-  if (topics.length > 0) {
-    return [...new Set(topics)];
-  }
-
-  // Fallback: extract meaningful words (>3 chars, not common words)
-  const commonWords = new Set(['the', 'and', 'for', 'that', 'this', 'with', 'from', 'have', 'are', 'was', 'were', 'been', 'being', 'has', 'had', 'does', 'did', 'will', 'would', 'could', 'should', 'can', 'may', 'might', 'must', 'shall', 'need', 'want', 'like', 'just', 'also', 'more', 'some', 'what', 'when', 'where', 'which', 'who', 'how', 'why', 'all', 'each', 'every', 'both', 'few', 'most', 'other', 'into', 'over', 'such', 'only', 'same', 'than', 'very', 'your', 'make', 'take', 'come', 'give', 'look', 'think', 'know', 'see', 'time', 'year', 'people', 'way', 'day', 'man', 'woman', 'child', 'world', 'life', 'hand', 'part', 'place', 'case', 'week', 'company', 'system', 'program', 'question', 'work', 'government', 'number', 'night', 'point', 'home', 'water', 'room', 'mother', 'area', 'money', 'story', 'fact', 'month', 'lot', 'right', 'study', 'book', 'eye', 'job', 'word', 'business', 'issue', 'side', 'kind', 'head', 'house', 'service', 'friend', 'father', 'power', 'hour', 'game', 'line', 'end', 'member', 'law', 'car', 'city', 'community', 'name']);
-  const words = prompt.toLowerCase().match(/\b[a-z]{4,}\b/g) || [];
-  const meaningfulWords = words.filter(w => !commonWords.has(w));
-  return [...new Set(meaningfulWords)].slice(0, 10);
-}
-
 function shouldSkipContextRetrieval(prompt: string): boolean {
   return SKIP_CONTEXT_PATTERNS.some((p) => p.test(prompt.trim()));
 }
@@ -73,11 +51,6 @@ export async function handleUserPrompt(): Promise<void> {
     process.exit(0);
   }
 
-  // Early exit if plugin is disabled
-  if (!isPluginEnabled()) {
-    process.exit(0);
-  }
-
   let hookInput: HookInput = {};
   try {
     const input = getCachedStdin() ?? await Bun.stdin.text();
@@ -92,8 +65,21 @@ export async function handleUserPrompt(): Promise<void> {
   const cwd = hookInput.workspace_roots?.[0] || hookInput.cwd || process.cwd();
   const instanceId = hookInput.session_id || getInstanceIdForCwd(cwd);
 
+  // Early exit if plugin is disabled or this directory is excluded entirely
+  const policy = getPolicy(cwd, config, instanceId);
+  if (!policy.capture && !policy.context) {
+    process.exit(0);
+  }
+  if (policy.incognito) {
+    incognitoNotice = visIncognitoLine("user-prompt");
+  }
+
+  const sessionName = getSessionName(cwd, instanceId || undefined);
+  // Context cache and message counters are scoped to this session + instance
+  const cacheKey = getContextCacheKey(sessionName, instanceId);
+
   // Set log context for this hook
-  setLogContext(cwd, getSessionName(cwd, instanceId || undefined));
+  setLogContext(cwd, sessionName);
 
   // Skip empty prompts
   if (!prompt.trim()) {
@@ -102,27 +88,65 @@ export async function handleUserPrompt(): Promise<void> {
 
   logHook("user-prompt", `Prompt received (${prompt.length} chars)`);
 
-  // Start upload immediately (we'll await before exit)
-  let uploadPromise: Promise<void> | null = null;
-  if (config.saveMessages !== false) {
-    uploadPromise = uploadMessageAsync(config, cwd, prompt, instanceId || undefined);
+  // Persist the prompt to the outbox first, then start draining immediately
+  // (we'll await before exit). Draining also retries anything left over from
+  // earlier hooks that couldn't reach Honcho.
+  if (policy.capture && config.saveMessages !== false) {
+    queuePrompt(config, cwd, prompt, instanceId || undefined);
   }
+  const uploadPromise = drainOutbox(config, { source: "user-prompt" });
 
   // Track message count for threshold-based knowledge graph refresh
-  const messageCount = incrementMessageCount();
+  const messageCount = incrementMessageCount(cacheKey);
+
+  if (!policy.context) {
+    logHook("user-prompt", `Skipping context (${policy.reason})`);
+    outputSystemOnly(visSkipLine("user-prompt", policy.reason ?? "context off"));
+    await uploadPromise;
+    process.exit(0);
+  }
 
   // For trivial prompts, skip heavy context retrieval but still upload
   if (shouldSkipContextRetrieval(prompt)) {
     logHook("user-prompt", "Skipping context (trivial prompt)");
-    visSkipMessage("user-prompt", "trivial prompt");
-    if (uploadPromise) await uploadPromise.catch((e) => logHook("user-prompt", `Upload failed: ${e}`, { error: String(e) }));
+    outputSystemOnly(visSkipLine("user-prompt", "trivial prompt"));
+    await uploadPromise;
     process.exit(0);
   }
 
+  // Earlier prompts in this session feed the search query, so follow-ups
+  // still find something. Incognito prompts aren't kept, even locally, and
+  // the rest are kept redacted.
+  const recentPrompts = getRecentPromptSources(cacheKey);
+  const { windowSize } = getSearchQueryConfig();
+  if (!policy.incognito && windowSize! > 0) {
+    pushRecentPrompt(cacheKey, redactText(prompt, config.redaction).text, windowSize!);
+  }
+
+  // Rank identifiers, paths, errors and repo terms instead of crude truncation.
+  // The same terms decide which conclusions are relevant enough to inject.
+  const search = buildSearchQuery(prompt, loadRepoVocabulary(cwd), recentPrompts, config.redaction);
+  logFlow("query", `search: ${search.query}`, {
+    terms: search.terms.map((t) => `${t.kind}:${t.text}${t.source ? ` (-${t.source})` : ""}`),
+    window: recentPrompts.length,
+  });
+
+  // Conclusions and profile lines already shown in this session (at session
+  // start or on an earlier prompt) aren't injected again
+  const { skipInjected } = getContextRefreshConfig();
+  const ledger = getInjectedItems(cacheKey);
+  const seen = skipInjected && !ledger.refreshPending ? ledger.items : new Set<string>();
+  if (skipInjected && ledger.refreshPending) {
+    logFlow("inject", "refresh after compaction: ledger ignored for this prompt");
+  }
+  const noteInjected = (result: FreshContextResult) => {
+    if (skipInjected) recordInjectedItems(cacheKey, result.injected);
+  };
+
   // Determine if we should refresh: either cache is stale OR message threshold reached
-  const forceRefresh = shouldRefreshKnowledgeGraph();
-  const cachedContext = getCachedUserContext();
-  const cacheIsStale = isContextCacheStale();
+  const forceRefresh = shouldRefreshKnowledgeGraph(cacheKey);
+  const cachedContext = getCachedUserContext(cacheKey);
+  const cacheIsStale = isContextCacheStale(cacheKey);
 
   if (cachedContext && !cacheIsStale && !forceRefresh) {
     // Use cached context - instant response
@@ -135,20 +159,22 @@ export async function handleUserPrompt(): Promise<void> {
     verboseApiResult("session.context() → representation (cached)", cachedRep);
     verboseList("session.context() → peerCard (cached)", cachedContext?.peerCard);
 
-    const contextParts = formatCachedContext(cachedContext, config.peerName);
+    const cachedResult = formatCachedContext(cachedContext, prompt, search, seen);
+    const { parts: contextParts, conclusionCount } = cachedResult;
+    noteInjected(cachedResult);
     if (contextParts.length > 0) {
-      const rep = cachedContext?.representation;
-      const conclusionCount = typeof rep === "string" ? rep.split("\n").filter((l: string) => l.trim() && !l.startsWith("#")).length : 0;
       const visMsg = visContextLine("user-prompt", {
         conclusions: conclusionCount,
         insights: 0,
         cached: true,
       }) || "[honcho] user-prompt \u2190 context injected (cached)";
       outputContext(config.peerName, contextParts, visMsg);
+    } else if (cachedResult.alreadyShown > 0) {
+      outputSystemOnly(`[honcho] user-prompt \u2022 nothing new (${cachedResult.alreadyShown} already shown)`);
     } else {
       outputSystemOnly("[honcho] user-prompt \u2022 no cached context available");
     }
-    if (uploadPromise) await uploadPromise.catch((e) => logHook("user-prompt", `Upload failed: ${e}`, { error: String(e) }));
+    await uploadPromise;
     process.exit(0);
   }
 
@@ -160,7 +186,7 @@ export async function handleUserPrompt(): Promise<void> {
 
   const FETCH_TIMEOUT_MS = 5000;
   const fetchResult = await Promise.race([
-    fetchFreshContext(config, cwd, prompt).then(r => ({ ok: true as const, ...r })),
+    fetchFreshContext(config, sessionName, cacheKey, prompt, search, seen).then(r => ({ ok: true as const, ...r })),
     new Promise<{ ok: false }>(resolve => setTimeout(() => resolve({ ok: false }), FETCH_TIMEOUT_MS)),
   ]).catch((e): { ok: false } => {
     logHook("user-prompt", `Context fetch failed: ${e}`, { error: String(e) });
@@ -169,6 +195,7 @@ export async function handleUserPrompt(): Promise<void> {
 
   if (fetchResult.ok) {
     const { parts: contextParts, conclusionCount } = fetchResult;
+    noteInjected(fetchResult);
     if (contextParts.length > 0) {
       const visMsg = visContextLine("user-prompt", {
         conclusions: conclusionCount,
@@ -176,21 +203,27 @@ export async function handleUserPrompt(): Promise<void> {
         cached: false,
       }) || "[honcho] user-prompt \u2190 fresh context injected";
       outputContext(config.peerName, contextParts, visMsg);
+    } else if (fetchResult.alreadyShown > 0) {
+      outputSystemOnly(`[honcho] user-prompt \u2022 nothing new (${fetchResult.alreadyShown} already shown)`);
     } else {
       outputSystemOnly("[honcho] user-prompt \u2022 no matching context found");
     }
     if (forceRefresh) {
-      markKnowledgeGraphRefreshed();
+      markKnowledgeGraphRefreshed(cacheKey);
     }
   } else {
     // Timeout or error -- serve stale cache instead of showing nothing
-    const staleContext = getStaleCachedUserContext();
+    const staleContext = getStaleCachedUserContext(cacheKey);
     if (staleContext) {
       logHook("user-prompt", "Serving stale cache after timeout/error");
-      const contextParts = formatCachedContext(staleContext, config.peerName);
+      const staleResult = formatCachedContext(staleContext, prompt, search, seen);
+      const { parts: contextParts } = staleResult;
+      noteInjected(staleResult);
       if (contextParts.length > 0) {
         const visMsg = "[honcho] user-prompt \u2190 context injected (stale)";
         outputContext(config.peerName, contextParts, visMsg);
+      } else if (incognitoNotice) {
+        outputSystemOnly();
       }
     } else {
       outputSystemOnly("[honcho] user-prompt \u2717 context unavailable");
@@ -198,75 +231,147 @@ export async function handleUserPrompt(): Promise<void> {
   }
 
   // Ensure upload completes before exit
-  if (uploadPromise) await uploadPromise.catch((e) => logHook("user-prompt", `Upload failed: ${e}`, { error: String(e) }));
+  await uploadPromise;
   process.exit(0);
 }
 
-async function uploadMessageAsync(config: any, cwd: string, prompt: string, instanceId?: string): Promise<void> {
-  logApiCall("session.addMessages", "POST", `user prompt (${prompt.length} chars)`);
-  const honcho = new Honcho(getHonchoClientOptions(config));
+function queuePrompt(config: HonchoCLAUDEConfig, cwd: string, prompt: string, instanceId?: string): void {
   const sessionName = getSessionName(cwd, instanceId);
 
-  // Get session and peer using new fluent API
-  const session = await honcho.session(sessionName);
-  const userPeer = await honcho.peer(config.peerName);
-
-  // Chunk large messages to stay under API size limits
-  const chunks = chunkContent(prompt);
-  const messages = chunks.map(chunk =>
-    userPeer.message(chunk, {
-      metadata: {
-        instance_id: instanceId || undefined,
-        session_affinity: sessionName,
-      }
-    })
-  );
-  await session.addMessages(messages);
+  // Apply messageUpload limits, then chunk to stay under API size limits
+  const prepared = prepareUpload(prompt, "user", getMessageUploadConfig());
+  const chunks = chunkContent(prepared.content);
+  const createdAt = new Date().toISOString();
+  enqueueMessages(config, chunks.map((chunk) => ({
+    sessionName,
+    peerName: config.peerName,
+    content: chunk,
+    createdAt,
+    cwd,
+    metadata: {
+      instance_id: instanceId || undefined,
+      session_affinity: sessionName,
+      truncation: prepared.truncation,
+    },
+  })));
+  logHook("user-prompt", `Queued prompt (${prompt.length} chars, ${chunks.length} chunk(s)${prepared.truncation ? `, ${prepared.truncation.applied.join("+")}` : ""})`);
+}
+
+/** The session's previous prompts, most recent first, weighted per searchQuery config */
+function getRecentPromptSources(cacheKey: string): QuerySource[] {
+  const { windowSize, recentWeight, recentDecay } = getSearchQueryConfig();
+  if (!windowSize || windowSize <= 0) return [];
+  return getRecentPrompts(cacheKey)
+    .slice(0, windowSize)
+    .map((text, i) => ({ text, weight: recentWeight! * recentDecay! ** i }));
 }
 
-function formatCachedContext(context: any, peerName: string): string[] {
+// Linked workspaces add at most this many conclusions each
+const MAX_LINKED_CONCLUSIONS = 3;
+
+/**
+ * Keep the conclusions relevant to this prompt (see rerank.ts), best first.
+ * Cache entries written by this hook hold this session's search results;
+ * anything else is the peer-wide context cached at session start.
+ */
+function formatCachedContext(context: CachedUserContext, prompt: string, search: SearchQuery, seen: Set<string>): FreshContextResult {
+  const source = context?.source === "session" ? "session" : "global";
+  return formatRankedContext(parseConclusions(context?.representation, source), context?.peerCard, prompt, search, seen);
+}
+
+function formatRankedContext(
+  conclusions: Conclusion[],
+  peerCard: string[] | null | undefined,
+  prompt: string,
+  search: SearchQuery,
+  seen: Set<string>
+): FreshContextResult {
+  const { minScore, maxConclusions, recencyHalfLifeDays } = getRelevanceConfig();
+  const ranked = rerankConclusions(conclusions, prompt, search, {
+    minScore: minScore!,
+    recencyHalfLifeDays: recencyHalfLifeDays!,
+  });
+  logFlow("rerank", `${ranked.length}/${conclusions.length} conclusions at or above ${minScore}`, {
+    top: ranked.slice(0, maxConclusions).map((c) => `${c.score.toFixed(2)} ${c.source}: ${c.text.slice(0, 60)}`),
+  });
+
+  const injected: string[] = [];
+  let alreadyShown = 0;
+  const isNew = (text: string) => {
+    const key = getInjectedItemKey(text);
+    if (seen.has(key)) {
+      alreadyShown++;
+      return false;
+    }
+    injected.push(key);
+    return true;
+  };
+
   const parts: string[] = [];
-  const rep = context?.representation;
+  const own: string[] = [];
+  for (const c of ranked) {
+    if (own.length >= maxConclusions!) break;
+    if (c.source !== "linked" && isNew(c.text)) own.push(c.text);
+  }
+  if (own.length > 0) {
+    parts.push(`Relevant conclusions: ${own.join("; ")}`);
+  }
 
-  if (typeof rep === "string" && rep.trim()) {
-    const lines = rep.split("\n").filter((l: string) => l.trim() && !l.startsWith("#"));
-    const summary = lines.slice(0, 5).map((l: string) => l.replace(/^\[.*?\]\s*/, "").replace(/^- /, "")).join("; ");
-    if (summary) parts.push(`Relevant conclusions: ${summary}`);
+  const newProfile = (peerCard ?? []).filter(isNew);
+  if (newProfile.length > 0) {
+    parts.push(`Profile: ${newProfile.join("; ")}`);
   }
 
-  const peerCard = context?.peerCard;
-  if (peerCard?.length) {
-    parts.push(`Profile: ${peerCard.join("; ")}`);
+  let linkedCount = 0;
+  const linkedByWorkspace = new Map<string, string[]>();
+  for (const c of ranked) {
+    if (c.source !== "linked" || !c.workspace) continue;
+    const texts = linkedByWorkspace.get(c.workspace) ?? [];
+    if (texts.length >= Math.min(MAX_LINKED_CONCLUSIONS, maxConclusions!) || !isNew(c.text)) continue;
+    texts.push(c.text);
+    linkedByWorkspace.set(c.workspace, texts);
+    linkedCount++;
+  }
+  for (const [ws, texts] of linkedByWorkspace) {
+    parts.push(`Linked (${ws}): ${texts.join("; ")}`);
   }
 
-  return parts;
+  return { parts, conclusionCount: own.length + linkedCount, injected, alreadyShown };
 }
 
 interface FreshContextResult {
   parts: string[];
   conclusionCount: number;
+  /** Ledger keys of the conclusions and profile lines in `parts` */
+  injected: string[];
+  /** Relevant items left out because this session has already seen them */
+  alreadyShown: number;
 }
 
-async function fetchFreshContext(config: any, cwd: string, prompt: string): Promise<FreshContextResult> {
+async function fetchFreshContext(
+  config: HonchoCLAUDEConfig,
+  sessionName: string,
+  cacheKey: string,
+  prompt: string,
+  search: SearchQuery,
+  seen: Set<string>
+): Promise<FreshContextResult> {
   const honcho = new Honcho(getHonchoClientOptions(config));
-  const sessionName = getSessionName(cwd);
 
   // Get peer using new fluent API
   const session = await honcho.session(sessionName);
 
-  const contextParts: string[] = [];
-  let conclusionCount = 0;
+  const conclusions: Conclusion[] = [];
+  let peerCard: string[] | null | undefined;
 
   // Only use context() here - it's free and returns pre-computed knowledge
   // Skip chat() - only use at session-start
   const startTime = Date.now();
 
-  // Extract meaningful topics instead of crude truncation
-  const topics = extractTopics(prompt);
-  const searchQuery = topics.length > 0 ? topics.join(' ') : prompt.slice(0, 200);
-
+  // A search query is only accepted together with the peer it searches
   const contextResult = await session.context({
-    searchQuery,
+    searchQuery: search.query,
+    peerTarget: config.peerName,
     representationOptions: {
       searchTopK: 5,
       searchMaxDistance: 0.7,
@@ -277,25 +382,21 @@ async function fetchFreshContext(config: any, cwd: string, prompt: string): Prom
   logApiCall("session.context", "GET", `search query`, Date.now() - startTime, true);
 
   if (contextResult) {
-    setCachedUserContext(contextResult); // Update cache
-    const rep = (contextResult as any).representation;
+    // Session context names it peerRepresentation; cache it under the same
+    // shape peer.context() returns so cached reads don't need to care
+    const rep = contextResult.peerRepresentation;
+    peerCard = contextResult.peerCard;
+    setCachedUserContext(cacheKey, { representation: rep, peerCard, source: "session" }); // Update cache
 
     // Verbose output (file-based — ~/.honcho/verbose.log)
     // UserPromptSubmit stdout is always visible, so debug data goes to file.
     verboseApiResult("session.context() → representation", rep);
-    verboseList("session.context() → peerCard", (contextResult as any).peerCard);
-
-    if (typeof rep === "string" && rep.trim()) {
-      const lines = rep.split("\n").filter((l: string) => l.trim() && !l.startsWith("#"));
-      conclusionCount = lines.length;
-      const summary = lines.slice(0, 5).map((l: string) => l.replace(/^\[.*?\]\s*/, "").replace(/^- /, "")).join("; ");
-      if (summary) contextParts.push(`Relevant conclusions: ${summary}`);
-      logCache("write", "userContext", `${conclusionCount} conclusions`);
-    }
+    verboseList("session.context() → peerCard", peerCard ?? undefined);
 
-    const peerCard = (contextResult as any).peerCard;
-    if (peerCard?.length) {
-      contextParts.push(`Profile: ${peerCard.join("; ")}`);
+    const own = parseConclusions(rep, "session");
+    if (own.length > 0) {
+      conclusions.push(...own);
+      logCache("write", "userContext", `${own.length} conclusions`);
     }
   }
 
@@ -304,16 +405,13 @@ async function fetchFreshContext(config: any, cwd: string, prompt: string): Prom
   if (linkedWorkspaces.length > 0) {
     const linkedResults = await Promise.allSettled(
       linkedWorkspaces.map(async (ws) => {
-        const linkedClient = new Honcho({
-          apiKey: config.apiKey,
-          baseUrl: getHonchoBaseUrl(config),
-          workspaceId: ws,
-        });
+        const linkedClient = new Honcho({ ...getHonchoClientOptions(config), workspaceId: ws });
         const linkedSession = await linkedClient.session(sessionName);
         return {
           ws,
           context: await linkedSession.context({
-            searchQuery,
+            searchQuery: search.query,
+            peerTarget: config.peerName,
             representationOptions: { searchTopK: 3, searchMaxDistance: 0.7, maxConclusions: 5 },
           }),
         };
@@ -322,21 +420,27 @@ async function fetchFreshContext(config: any, cwd: string, prompt: string): Prom
 
     for (const result of linkedResults) {
       if (result.status === "fulfilled" && result.value.context) {
-        const rep = (result.value.context as any).representation;
-        if (typeof rep === "string" && rep.trim()) {
-          const lines = rep.split("\n").filter((l: string) => l.trim() && !l.startsWith("#"));
-          const summary = lines.slice(0, 3).map((l: string) => l.replace(/^\[.*?\]\s*/, "").replace(/^- /, "")).join("; ");
-          if (summary) contextParts.push(`Linked (${result.value.ws}): ${summary}`);
-        }
+        conclusions.push(...parseConclusions(result.value.context.peerRepresentation, "linked", result.value.ws));
       }
     }
   }
 
-  return { parts: contextParts, conclusionCount };
+  return formatRankedContext(conclusions, peerCard, prompt, search, seen);
+}
+
+// Set while this session is incognito; appended to every systemMessage we emit
+let incognitoNotice: string | undefined;
+
+function withIncognitoNotice(message?: string): string | undefined {
+  const lines = [message, incognitoNotice].filter(Boolean);
+  return lines.length > 0 ? lines.join("\n") : undefined;
 }
 
-function outputSystemOnly(message: string): void {
-  console.log(JSON.stringify({ systemMessage: message }));
+function outputSystemOnly(message?: string): void {
+  const systemMessage = withIncognitoNotice(message);
+  if (systemMessage) {
+    console.log(JSON.stringify({ systemMessage }));
+  }
 }
 
 function outputContext(peerName: string, contextParts: string[], systemMsg?: string): void {
@@ -346,8 +450,9 @@ function outputContext(peerName: string, contextParts: string[], systemMsg?: str
       additionalContext: `[Honcho Memory for ${peerName}]: ${contextParts.join(" | ")}`,
     },
   };
-  if (systemMsg) {
-    output = addSystemMessage(output, systemMsg);
+  const message = withIncognitoNotice(systemMsg);
+  if (message) {
+    output = addSystemMessage(output, message);
   }
   console.log(JSON.stringify(output));
 }
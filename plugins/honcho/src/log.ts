@@ -9,9 +9,10 @@
 
 import { homedir } from "os";
 import { join } from "path";
-import { existsSync, appendFileSync, mkdirSync, readFileSync, writeFileSync } from "fs";
+import { existsSync, appendFileSync, mkdirSync, readFileSync, statSync } from "fs";
 import { symbols, arrows, box } from "./unicode.js";
 import { isLoggingEnabled } from "./config.js";
+import { withFileLock, writeFileAtomic } from "./storage.js";
 
 const CACHE_DIR = join(homedir(), ".honcho");
 const LOG_FILE = join(CACHE_DIR, "activity.log");
@@ -136,17 +137,16 @@ export function logActivity(
   };
 
   try {
-    // Check file size and truncate if needed
-    if (existsSync(LOG_FILE)) {
-      const stats = Bun.file(LOG_FILE).size;
-      if (stats > MAX_LOG_SIZE) {
+    withFileLock(LOG_FILE, () => {
+      // Check file size and truncate if needed (at a line boundary, so no torn entry survives)
+      if (existsSync(LOG_FILE) && statSync(LOG_FILE).size > MAX_LOG_SIZE) {
         const content = readFileSync(LOG_FILE, "utf-8");
-        const truncated = content.slice(-50 * 1024);
-        Bun.write(LOG_FILE, truncated);
+        const tail = content.slice(-50 * 1024);
+        writeFileAtomic(LOG_FILE, tail.slice(tail.indexOf("\n") + 1));
       }
-    }
 
-    appendFileSync(LOG_FILE, JSON.stringify(entry) + "\n");
+      appendFileSync(LOG_FILE, JSON.stringify(entry) + "\n");
+    });
   } catch {
     // Ignore logging errors
   }
@@ -405,7 +405,7 @@ export function watchLogs(callback: (entries: LogEntry[]) => void): () => void {
 export function clearLogs(): void {
   ensureLogDir();
   if (existsSync(LOG_FILE)) {
-    writeFileSync(LOG_FILE, "");
+    withFileLock(LOG_FILE, () => writeFileAtomic(LOG_FILE, ""));
   }
 }
 
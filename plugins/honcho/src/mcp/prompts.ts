@@ -0,0 +1,115 @@
+/**
+ * MCP prompts
+ *
+ * The skill flows, packaged for MCP clients that don't load Claude Code
+ * skills. "interview" and "memory-review" are the SKILL.md files themselves,
+ * read at request time so the two never drift apart. "recall" has no skill:
+ * it attaches the session summary, the AI peer's work representation and
+ * claude-context.md as resources and asks for a recap.
+ */
+
+import type { Honcho } from "@honcho-ai/sdk";
+import { readFileSync } from "fs";
+import { join } from "path";
+import type { HonchoCLAUDEConfig } from "../config.js";
+import { listResources, readResource } from "./resources.js";
+
+const SKILLS_DIR = join(import.meta.dir, "..", "..", "skills");
+
+// Skills ask through Claude Code's AskUserQuestion; other clients just ask
+const PLAIN_QUESTIONS_NOTE =
+  "If the AskUserQuestion tool isn't available, ask the same questions in plain text and offer the options as a short list.";
+
+const PROMPTS = [
+  {
+    name: "recall",
+    description: "Recall project context: what was being worked on here, from Honcho memory",
+    arguments: [
+      { name: "topic", description: "Focus the recap on this topic", required: false },
+    ],
+  },
+  {
+    name: "interview",
+    description: "Interview the user to capture stable, cross-project preferences and save them to Honcho",
+    arguments: [],
+  },
+  {
+    name: "memory-review",
+    description: "Review what Honcho has concluded about the user, and correct or delete wrong conclusions",
+    arguments: [
+      { name: "filter", description: "Only conclusions containing this text, or \"session\" for this session's", required: false },
+    ],
+  },
+];
+
+export function listPrompts() {
+  return PROMPTS;
+}
+
+function describe(name: string): string {
+  return PROMPTS.find((p) => p.name === name)?.description ?? name;
+}
+
+/** SKILL.md without its frontmatter */
+function loadSkill(name: string): string {
+  const raw = readFileSync(join(SKILLS_DIR, name, "SKILL.md"), "utf-8");
+  return raw.replace(/^---\n[\s\S]*?\n---\n/, "").trim();
+}
+
+function userText(text: string) {
+  return { role: "user" as const, content: { type: "text" as const, text } };
+}
+
+async function buildRecall(honcho: Honcho, config: HonchoCLAUDEConfig, cwd: string, topic: string | undefined) {
+  // Everything listed except the user's card, which is about them, not the project
+  const uris = listResources(config).map((r) => r.uri).filter((uri) => !uri.endsWith("/card"));
+  const settled = await Promise.allSettled(uris.map((uri) => readResource(honcho, config, cwd, uri)));
+  const attached = settled.flatMap((result) => (result.status === "fulfilled" ? [result.value] : []));
+
+  const focus = topic
+    ? ` Focus on "${topic}": use the \`search\` tool (scope "session", then "workspace" if that finds little) and the \`chat\` tool to fill in what the attachments don't cover.`
+    : "";
+  return {
+    description: describe("recall"),
+    messages: [
+      ...attached.map((resource) => ({ role: "user" as const, content: { type: "resource" as const, resource } })),
+      userText(
+        `Using the Honcho memory attached above, recap what ${config.peerName} and ${config.aiPeer} have been working on in this project: ` +
+        `the goal, what was done last, open problems and the likely next step.${focus} ` +
+        "Keep it to a short list. Say so plainly if the memory is empty or doesn't cover something."
+      ),
+    ],
+  };
+}
+
+/** Build a prompt's messages. Throws on an unknown name so the client gets a protocol error. */
+export async function getPrompt(
+  honcho: Honcho,
+  config: HonchoCLAUDEConfig,
+  cwd: string,
+  name: string,
+  args: Record<string, string> | undefined
+) {
+  switch (name) {
+    case "recall":
+      return buildRecall(honcho, config, cwd, args?.topic?.trim() || undefined);
+
+    case "interview":
+      return {
+        description: describe("interview"),
+        messages: [userText(loadSkill("interview"))],
+      };
+
+    case "memory-review": {
+      const filter = args?.filter?.trim();
+      const invocation = filter ? `The user ran \`/honcho:memory ${filter}\`.` : "The user ran `/honcho:memory`.";
+      return {
+        description: describe("memory-review"),
+        messages: [userText(`${loadSkill("memory")}\n\n${PLAIN_QUESTIONS_NOTE}\n\n${invocation}`)],
+      };
+    }
+
+    default:
+      throw new Error(`Unknown prompt: ${name}`);
+  }
+}
@@ -0,0 +1,126 @@
+/**
+ * MCP resources
+ *
+ * Honcho memory a client can attach on demand instead of calling a tool:
+ *
+ *   honcho://peers/{peer}/card              stable facts about the peer
+ *   honcho://peers/{peer}/representation    what Honcho has concluded about the peer
+ *   honcho://sessions/{session}/summary     Honcho's summary of a session
+ *   honcho://local/claude-context.md        the AI peer's local work log
+ *
+ * The list names the user's card, this directory's session summary, the AI
+ * peer's representation and claude-context.md. Any other peer or session is
+ * reachable through the templates; "current" is this directory's session.
+ */
+
+import type { Honcho } from "@honcho-ai/sdk";
+import { getClaudeContextPath, loadClaudeLocalContext } from "../cache.js";
+import { getSessionName, type HonchoCLAUDEConfig } from "../config.js";
+
+const CLAUDE_CONTEXT_URI = "honcho://local/claude-context.md";
+const CURRENT_SESSION = "current";
+const REPRESENTATION_MAX_CONCLUSIONS = 50;
+
+export interface ResourceContents {
+  uri: string;
+  mimeType: string;
+  text: string;
+}
+
+function peerUri(peer: string, kind: "card" | "representation"): string {
+  return `honcho://peers/${encodeURIComponent(peer)}/${kind}`;
+}
+
+function sessionSummaryUri(session: string): string {
+  return `honcho://sessions/${encodeURIComponent(session)}/summary`;
+}
+
+export function listResources(config: HonchoCLAUDEConfig) {
+  return [
+    {
+      uri: peerUri(config.peerName, "card"),
+      name: `${config.peerName} peer card`,
+      description: `Stable facts Honcho keeps about ${config.peerName}`,
+      mimeType: "text/plain",
+    },
+    {
+      uri: sessionSummaryUri(CURRENT_SESSION),
+      name: "Current session summary",
+      description: "Honcho's summary of this directory's session",
+      mimeType: "text/markdown",
+    },
+    {
+      uri: peerUri(config.aiPeer, "representation"),
+      name: `${config.aiPeer} work representation`,
+      description: `What Honcho has concluded about ${config.aiPeer}'s work`,
+      mimeType: "text/markdown",
+    },
+    {
+      uri: CLAUDE_CONTEXT_URI,
+      name: "claude-context.md",
+      description: `Local log of ${config.aiPeer}'s recent work (${getClaudeContextPath()})`,
+      mimeType: "text/markdown",
+    },
+  ];
+}
+
+export function listResourceTemplates() {
+  return [
+    {
+      uriTemplate: "honcho://peers/{peer}/card",
+      name: "Peer card",
+      description: "Stable facts Honcho keeps about a peer",
+      mimeType: "text/plain",
+    },
+    {
+      uriTemplate: "honcho://peers/{peer}/representation",
+      name: "Peer representation",
+      description: "What Honcho has concluded about a peer",
+      mimeType: "text/markdown",
+    },
+    {
+      uriTemplate: "honcho://sessions/{session}/summary",
+      name: "Session summary",
+      description: `Honcho's summary of a session ("${CURRENT_SESSION}" for this directory's session)`,
+      mimeType: "text/markdown",
+    },
+  ];
+}
+
+/** Read one resource. Throws on an unknown URI so the client gets a protocol error. */
+export async function readResource(
+  honcho: Honcho,
+  config: HonchoCLAUDEConfig,
+  cwd: string,
+  uri: string
+): Promise<ResourceContents> {
+  if (uri === CLAUDE_CONTEXT_URI) {
+    const text = loadClaudeLocalContext();
+    return { uri, mimeType: "text/markdown", text: text || "No local context yet." };
+  }
+
+  const peerMatch = uri.match(/^honcho:\/\/peers\/([^/]+)\/(card|representation)$/);
+  if (peerMatch) {
+    const peer = await honcho.peer(decodeURIComponent(peerMatch[1]));
+    if (peerMatch[2] === "card") {
+      const card = await peer.card();
+      return { uri, mimeType: "text/plain", text: card?.length ? card.join("\n") : "No peer card yet." };
+    }
+    const representation = await peer.representation({
+      includeMostFrequent: true,
+      maxConclusions: REPRESENTATION_MAX_CONCLUSIONS,
+    });
+    return { uri, mimeType: "text/markdown", text: representation?.trim() || "No conclusions yet." };
+  }
+
+  const sessionMatch = uri.match(/^honcho:\/\/sessions\/([^/]+)\/summary$/);
+  if (sessionMatch) {
+    const name = decodeURIComponent(sessionMatch[1]);
+    const session = await honcho.session(name === CURRENT_SESSION ? getSessionName(cwd) : name);
+    const summaries = await session.summaries();
+    const summary = summaries.longSummary ?? summaries.shortSummary;
+    return { uri, mimeType: "text/markdown", text: summary?.content || "No summary yet." };
+  }
+
+  throw new Error(`Unknown resource: ${uri}`);
+}
@@ -2,25 +2,38 @@ import { Server } from "@modelcontextprotocol/sdk/server/index.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
 import {
   CallToolRequestSchema,
+  GetPromptRequestSchema,
+  ListPromptsRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
   ListToolsRequestSchema,
+  ReadResourceRequestSchema,
 } from "@modelcontextprotocol/sdk/types.js";
-import { Honcho } from "@honcho-ai/sdk";
+import { Honcho, type ConclusionScope } from "@honcho-ai/sdk";
 import { existsSync, readFileSync } from "fs";
+import { basename } from "path";
 import {
   loadConfig,
+  loadGlobalConfig,
   saveConfig,
   getHonchoClientOptions,
   getSessionName,
   getConfigPath,
+  REASONING_LEVELS,
   configExists,
   getDetectedHost,
   getEndpointInfo,
   getKnownHosts,
   getLinkedWorkspaces,
   setDetectedHost,
+  setProjectDir,
+  findProjectConfig,
+  getConfigSources,
   type HonchoCLAUDEConfig,
   type SessionStrategy,
   type HonchoEnvironment,
+  type ContextSectionBudget,
+  type ReasoningLevel,
 } from "../config.js";
 import {
   getLastActiveCwd,
@@ -28,7 +41,19 @@ import {
   clearPeerCache,
   clearUserContextOnly,
   clearClaudeContextOnly,
+  clearStartupSections,
+  getClaudeInstanceId,
+  getOpenInstancesForCwd,
+  getInstanceIdForCwd,
+  getIncognito,
+  setIncognito,
 } from "../cache.js";
+import { getBuiltinDetectorNames, isValidRedactionPattern } from "../redact.js";
+import { DEFAULT_TOKENIZER, getTokenizerNames, setTokenizer } from "../tokenizer.js";
+import { getPolicy } from "../policy.js";
+import { findUncoveredTools, getCaptureRules, readHooksMatcher, validateCaptureRules } from "../capture.js";
+import { listResources, listResourceTemplates, readResource } from "./resources.js";
+import { getPrompt, listPrompts } from "./prompts.js";
 
 // ============================================
 // Environment variable names that can shadow config fields
@@ -77,6 +102,17 @@ function renderCard(rows: [string, string][], title: string): string {
   return [top, blank, ...body, blank, bot].join("\n");
 }
 
+/**
+ * Capture rules can name tools the installed hooks.json matcher never
+ * delivers to PostToolUse; those rules silently do nothing until it's synced.
+ */
+function getUncoveredToolsWarning(cfg: HonchoCLAUDEConfig): string | null {
+  const matcher = readHooksMatcher();
+  const uncovered = matcher !== null ? findUncoveredTools(matcher, getCaptureRules(cfg)) : [];
+  if (!uncovered.length) return null;
+  return `captureRules record ${uncovered.join(", ")}, but the installed hooks.json PostToolUse matcher never delivers ${uncovered.length === 1 ? "it" : "them"}. Run scripts/install-local.sh (or bun scripts/sync-hooks-matcher.ts --config) and restart Claude Code.`;
+}
+
 function handleGetConfig(cwd: string) {
   const cfg = loadConfig();
   const host = getDetectedHost();
@@ -104,13 +140,33 @@ function handleGetConfig(cwd: string) {
     linkedWorkspaces,
     sessions: cfg.sessions ?? {},
     messageUpload: cfg.messageUpload ?? {},
+    toolResults: cfg.toolResults ?? {},
+    toolUpload: cfg.toolUpload ?? {},
     contextRefresh: cfg.contextRefresh ?? {},
+    searchQuery: cfg.searchQuery ?? {},
+    relevance: cfg.relevance ?? {},
+    dialectic: cfg.dialectic ?? {},
+    contextBudget: cfg.contextBudget ?? {},
+    tokenizer: cfg.tokenizer ?? DEFAULT_TOKENIZER,
     localContext: cfg.localContext ?? {},
+    redaction: cfg.redaction ?? {},
+    pathRules: cfg.pathRules ?? [],
+    captureRules: cfg.captureRules ?? [],
     enabled: cfg.enabled !== false,
     logging: cfg.logging !== false,
     saveMessages: cfg.saveMessages !== false,
   } : null;
 
+  // Project overlay (.honcho.json) and which layer each resolved value came from
+  const projectInfo = findProjectConfig();
+  const project = projectInfo ? {
+    path: projectInfo.path,
+    fields: Object.keys(projectInfo.config),
+    session: projectInfo.config.session ?? null,
+    refused: projectInfo.refused,
+  } : null;
+  const sources = resolved ? getConfigSources(Object.keys(resolved)) : null;
+
   // Current status header values
   const sessionName = cfg ? getSessionName(cwd) : null;
   const endpointInfo = cfg ? getEndpointInfo(cfg) : null;
@@ -124,6 +180,7 @@ function handleGetConfig(cwd: string) {
     peerName: cfg.peerName,
     aiPeer: cfg.aiPeer,
     host: `${endpointLabel} (${endpointInfo?.url})`,
+    policy: getPolicy(cwd, cfg, getInstanceIdForCwd(cwd) || getClaudeInstanceId()),
   } : null;
 
   // Host info — include other hosts so the config skill can offer linking
@@ -160,6 +217,18 @@ function handleGetConfig(cwd: string) {
     }
   }
 
+  if (projectInfo?.error) {
+    warnings.push(`Project config ${projectInfo.path} is not valid JSON and was ignored: ${projectInfo.error}`);
+  }
+  if (projectInfo?.refused.length) {
+    warnings.push(`Project config ${projectInfo.path} ignored fields not allowed at project level (or with invalid values): ${projectInfo.refused.join(", ")}. Credentials, endpoint, identity and hosts only come from ~/.honcho/config.json, and a project can only tighten redaction, capture and upload limits.`);
+  }
+
+  const uncoveredWarning = cfg?.captureRules?.length ? getUncoveredToolsWarning(cfg) : null;
+  if (uncoveredWarning) {
+    warnings.push(uncoveredWarning);
+  }
+
   // Check for legacy fields without hosts block
   if (cfgExists && !rawFile.hosts) {
     warnings.push("Config uses legacy flat fields. Consider running /honcho:config to migrate to hosts block.");
@@ -194,12 +263,13 @@ function handleGetConfig(cwd: string) {
     ["peer", `${cfg.peerName} / ${cfg.aiPeer}`],
     ["host", hostLabel],
     ["messages", cfg.saveMessages !== false ? "saving enabled" : "saving disabled"],
+    ...(projectInfo ? [["project", basename(projectInfo.path)] as [string, string]] : []),
   ], "current honcho config") : null;
 
   return {
     content: [{
       type: "text",
-      text: JSON.stringify({ card, resolved, current, host: hostInfo, warnings, configPath: cfgPath, configExists: cfgExists }, null, 2),
+      text: JSON.stringify({ card, resolved, sources, project, current, host: hostInfo, warnings, configPath: cfgPath, configExists: cfgExists }, null, 2),
     }],
   };
 }
@@ -239,7 +309,8 @@ function handleSetConfig(args: Record<string, unknown>) {
     };
   }
 
-  const cfg = loadConfig();
+  // Edit the global layer only — project values must not be written to ~/.honcho/config.json
+  const cfg = loadGlobalConfig();
   if (!cfg) {
     return {
       content: [{
@@ -260,6 +331,13 @@ function handleSetConfig(args: Record<string, unknown>) {
     warnings.push(`${field} is shadowed by env var ${shadowEnv}="${process.env[shadowEnv]}". File will be updated but env var takes precedence at runtime.`);
   }
 
+  // Check project overlay shadowing
+  const projectInfo = findProjectConfig();
+  const topField = field.split(".")[0];
+  if (projectInfo && topField in projectInfo.config) {
+    warnings.push(`${topField} is also set in project config ${projectInfo.path}, which takes precedence in this repo. The global value is updated but won't apply here.`);
+  }
+
   // Apply the change
   switch (field) {
     case "peerName":
@@ -374,6 +452,42 @@ function handleSetConfig(args: Record<string, unknown>) {
       cfg.messageUpload.summarizeAssistant = Boolean(value);
       break;
 
+    case "toolResults.captureFailures":
+      previousValue = cfg.toolResults?.captureFailures;
+      if (!cfg.toolResults) cfg.toolResults = {};
+      cfg.toolResults.captureFailures = Boolean(value);
+      break;
+
+    case "toolResults.maxErrorLines":
+      previousValue = cfg.toolResults?.maxErrorLines;
+      if (!cfg.toolResults) cfg.toolResults = {};
+      cfg.toolResults.maxErrorLines = value === null ? undefined : Number(value);
+      break;
+
+    case "toolUpload.flush":
+      if (value !== "batched" && value !== "immediate") {
+        return {
+          content: [{ type: "text", text: JSON.stringify({ success: false, error: "toolUpload.flush must be \"batched\" or \"immediate\"" }, null, 2) }],
+          isError: true,
+        };
+      }
+      previousValue = cfg.toolUpload?.flush;
+      if (!cfg.toolUpload) cfg.toolUpload = {};
+      cfg.toolUpload.flush = value;
+      break;
+
+    case "toolUpload.maxPending":
+      previousValue = cfg.toolUpload?.maxPending;
+      if (!cfg.toolUpload) cfg.toolUpload = {};
+      cfg.toolUpload.maxPending = value === null ? undefined : Number(value);
+      break;
+
+    case "toolUpload.maxWaitSeconds":
+      previousValue = cfg.toolUpload?.maxWaitSeconds;
+      if (!cfg.toolUpload) cfg.toolUpload = {};
+      cfg.toolUpload.maxWaitSeconds = value === null ? undefined : Number(value);
+      break;
+
     case "contextRefresh.messageThreshold":
       previousValue = cfg.contextRefresh?.messageThreshold;
       if (!cfg.contextRefresh) cfg.contextRefresh = {};
@@ -392,12 +506,234 @@ function handleSetConfig(args: Record<string, unknown>) {
       cfg.contextRefresh.skipDialectic = Boolean(value);
       break;
 
+    case "contextRefresh.startupDeadlineSeconds":
+      previousValue = cfg.contextRefresh?.startupDeadlineSeconds;
+      if (!cfg.contextRefresh) cfg.contextRefresh = {};
+      cfg.contextRefresh.startupDeadlineSeconds = value === null ? undefined : Number(value);
+      break;
+
+    case "contextRefresh.prefetch":
+      if (value !== "detached" && value !== "inline" && value !== "off") {
+        return {
+          content: [{ type: "text", text: JSON.stringify({ success: false, error: "contextRefresh.prefetch must be \"detached\", \"inline\" or \"off\"" }, null, 2) }],
+          isError: true,
+        };
+      }
+      previousValue = cfg.contextRefresh?.prefetch;
+      if (!cfg.contextRefresh) cfg.contextRefresh = {};
+      cfg.contextRefresh.prefetch = value;
+      break;
+
+    case "contextRefresh.skipInjected":
+      previousValue = cfg.contextRefresh?.skipInjected;
+      if (!cfg.contextRefresh) cfg.contextRefresh = {};
+      cfg.contextRefresh.skipInjected = Boolean(value);
+      break;
+
+    case "contextRefresh.refreshAfterCompaction":
+      previousValue = cfg.contextRefresh?.refreshAfterCompaction;
+      if (!cfg.contextRefresh) cfg.contextRefresh = {};
+      cfg.contextRefresh.refreshAfterCompaction = Boolean(value);
+      break;
+
+    case "searchQuery.windowSize":
+      previousValue = cfg.searchQuery?.windowSize;
+      if (!cfg.searchQuery) cfg.searchQuery = {};
+      cfg.searchQuery.windowSize = value === null ? undefined : Number(value);
+      break;
+
+    case "searchQuery.recentWeight":
+      previousValue = cfg.searchQuery?.recentWeight;
+      if (!cfg.searchQuery) cfg.searchQuery = {};
+      cfg.searchQuery.recentWeight = value === null ? undefined : Number(value);
+      break;
+
+    case "searchQuery.recentDecay":
+      previousValue = cfg.searchQuery?.recentDecay;
+      if (!cfg.searchQuery) cfg.searchQuery = {};
+      cfg.searchQuery.recentDecay = value === null ? undefined : Number(value);
+      break;
+
+    case "relevance.minScore":
+      previousValue = cfg.relevance?.minScore;
+      if (!cfg.relevance) cfg.relevance = {};
+      cfg.relevance.minScore = value === null ? undefined : Number(value);
+      break;
+
+    case "relevance.maxConclusions":
+      previousValue = cfg.relevance?.maxConclusions;
+      if (!cfg.relevance) cfg.relevance = {};
+      cfg.relevance.maxConclusions = value === null ? undefined : Number(value);
+      break;
+
+    case "relevance.recencyHalfLifeDays":
+      previousValue = cfg.relevance?.recencyHalfLifeDays;
+      if (!cfg.relevance) cfg.relevance = {};
+      cfg.relevance.recencyHalfLifeDays = value === null ? undefined : Number(value);
+      break;
+
+    case "dialectic.sessionStart.reasoningLevel":
+    case "dialectic.preCompact.reasoningLevel": {
+      if (!REASONING_LEVELS.includes(value as ReasoningLevel)) {
+        return {
+          content: [{ type: "text", text: JSON.stringify({ success: false, error: `${field} must be one of: ${REASONING_LEVELS.join(", ")}` }, null, 2) }],
+          isError: true,
+        };
+      }
+      const call = field === "dialectic.sessionStart.reasoningLevel" ? "sessionStart" : "preCompact";
+      previousValue = cfg.dialectic?.[call]?.reasoningLevel;
+      if (!cfg.dialectic) cfg.dialectic = {};
+      cfg.dialectic[call] = { ...cfg.dialectic[call], reasoningLevel: value as ReasoningLevel };
+      break;
+    }
+
+    case "dialectic.sessionStart.scope":
+    case "dialectic.preCompact.scope": {
+      if (value !== "session" && value !== "global") {
+        return {
+          content: [{ type: "text", text: JSON.stringify({ success: false, error: `${field} must be "session" or "global"` }, null, 2) }],
+          isError: true,
+        };
+      }
+      const call = field === "dialectic.sessionStart.scope" ? "sessionStart" : "preCompact";
+      previousValue = cfg.dialectic?.[call]?.scope;
+      if (!cfg.dialectic) cfg.dialectic = {};
+      cfg.dialectic[call] = { ...cfg.dialectic[call], scope: value };
+      break;
+    }
+
+    case "contextBudget.sessionStartTokens":
+      previousValue = cfg.contextBudget?.sessionStartTokens;
+      if (!cfg.contextBudget) cfg.contextBudget = {};
+      cfg.contextBudget.sessionStartTokens = Number(value);
+      break;
+
+    case "contextBudget.preCompactTokens":
+      previousValue = cfg.contextBudget?.preCompactTokens;
+      if (!cfg.contextBudget) cfg.contextBudget = {};
+      cfg.contextBudget.preCompactTokens = Number(value);
+      break;
+
+    case "contextBudget.sections": {
+      const valid = value !== null && typeof value === "object" && !Array.isArray(value)
+        && Object.values(value).every((v) => v !== null && typeof v === "object"
+          && ["priority", "minTokens", "maxTokens"].every((k) => (v as any)[k] === undefined || typeof (v as any)[k] === "number"));
+      if (!valid) {
+        return {
+          content: [{ type: "text", text: JSON.stringify({ success: false, error: "contextBudget.sections must map section ids to {priority, minTokens, maxTokens} numbers" }, null, 2) }],
+          isError: true,
+        };
+      }
+      previousValue = cfg.contextBudget?.sections;
+      if (!cfg.contextBudget) cfg.contextBudget = {};
+      cfg.contextBudget.sections = value as Record<string, ContextSectionBudget>;
+      break;
+    }
+
+    case "tokenizer": {
+      const names = getTokenizerNames();
+      if (typeof value !== "string" || !names.includes(value)) {
+        return {
+          content: [{ type: "text", text: JSON.stringify({ success: false, error: `tokenizer must be one of: ${names.join(", ")}` }, null, 2) }],
+          isError: true,
+        };
+      }
+      previousValue = cfg.tokenizer;
+      cfg.tokenizer = value;
+      setTokenizer(value);
+      break;
+    }
+
     case "localContext.maxEntries":
       previousValue = cfg.localContext?.maxEntries;
       if (!cfg.localContext) cfg.localContext = {};
       cfg.localContext.maxEntries = Number(value);
       break;
 
+    case "redaction.enabled":
+      previousValue = cfg.redaction?.enabled;
+      if (!cfg.redaction) cfg.redaction = {};
+      cfg.redaction.enabled = Boolean(value);
+      break;
+
+    case "redaction.disabledDetectors": {
+      const known = getBuiltinDetectorNames();
+      const names = Array.isArray(value) ? value.map(String) : [];
+      const unknown = names.filter((n) => !known.includes(n));
+      if (!Array.isArray(value) || unknown.length) {
+        return {
+          content: [{ type: "text", text: JSON.stringify({ success: false, error: `redaction.disabledDetectors must be an array of: ${known.join(", ")}` }, null, 2) }],
+          isError: true,
+        };
+      }
+      previousValue = cfg.redaction?.disabledDetectors;
+      if (!cfg.redaction) cfg.redaction = {};
+      cfg.redaction.disabledDetectors = names;
+      break;
+    }
+
+    case "redaction.patterns": {
+      const patterns = Array.isArray(value) ? value : [];
+      const invalid = patterns.filter((p) => !isValidRedactionPattern(p));
+      if (!Array.isArray(value) || invalid.length) {
+        return {
+          content: [{ type: "text", text: JSON.stringify({ success: false, error: "redaction.patterns must be an array of valid regex strings or {name, pattern, flags} objects, none matching the empty string" }, null, 2) }],
+          isError: true,
+        };
+      }
+      previousValue = cfg.redaction?.patterns;
+      if (!cfg.redaction) cfg.redaction = {};
+      cfg.redaction.patterns = patterns;
+      break;
+    }
+
+    case "captureRules": {
+      const problem = validateCaptureRules(value);
+      if (problem) {
+        return {
+          content: [{ type: "text", text: JSON.stringify({ success: false, error: `${problem}. Each rule is {tool, action?: capture|ignore, match?, exclude?, summary?}` }, null, 2) }],
+          isError: true,
+        };
+      }
+      previousValue = cfg.captureRules ?? [];
+      cfg.captureRules = value as HonchoCLAUDEConfig["captureRules"];
+      const uncovered = getUncoveredToolsWarning(cfg);
+      if (uncovered) warnings.push(uncovered);
+      break;
+    }
+
+    case "pathRules.add": {
+      const rule = value as Record<string, unknown>;
+      const rulePath = rule?.path;
+      const action = rule?.action ?? "exclude";
+      const scope = rule?.scope ?? "all";
+      if (typeof rulePath !== "string" || !rulePath
+        || (action !== "include" && action !== "exclude")
+        || (scope !== "capture" && scope !== "context" && scope !== "all")) {
+        return {
+          content: [{ type: "text", text: JSON.stringify({ success: false, error: "pathRules.add requires {path: string, action?: include|exclude, scope?: capture|context|all}" }, null, 2) }],
+          isError: true,
+        };
+      }
+      previousValue = cfg.pathRules ?? [];
+      // Re-adding a path moves it to the end, where it takes precedence
+      cfg.pathRules = [...(cfg.pathRules ?? []).filter((r) => r.path !== rulePath), { path: rulePath, action, scope }];
+      break;
+    }
+
+    case "pathRules.remove": {
+      const rPath = (value as Record<string, unknown>)?.path;
+      if (typeof rPath !== "string" || !rPath) {
+        return {
+          content: [{ type: "text", text: JSON.stringify({ success: false, error: "pathRules.remove requires {path: string}" }, null, 2) }],
+          isError: true,
+        };
+      }
+      previousValue = cfg.pathRules ?? [];
+      cfg.pathRules = (cfg.pathRules ?? []).filter((r) => r.path !== rPath);
+      break;
+    }
+
     case "sessions.set": {
       const obj = value as Record<string, unknown>;
       const path = obj?.path;
@@ -442,25 +778,36 @@ function handleSetConfig(args: Record<string, unknown>) {
   // Persist
   saveConfig(cfg);
 
-  // Return updated resolved config
-  const endpointInfo = getEndpointInfo(cfg);
+  // Return updated resolved config (effective values, including any project overlay)
+  const effective = loadConfig() ?? cfg;
+  const endpointInfo = getEndpointInfo(effective);
   const updatedLinkedWorkspaces = getLinkedWorkspaces();
   const resolved = {
-    peerName: cfg.peerName,
-    aiPeer: cfg.aiPeer,
-    workspace: cfg.workspace,
+    peerName: effective.peerName,
+    aiPeer: effective.aiPeer,
+    workspace: effective.workspace,
     endpoint: endpointInfo,
-    sessionStrategy: cfg.sessionStrategy ?? "per-directory",
-    sessionPeerPrefix: cfg.sessionPeerPrefix !== false,
-    linkedHosts: cfg.linkedHosts ?? [],
+    sessionStrategy: effective.sessionStrategy ?? "per-directory",
+    sessionPeerPrefix: effective.sessionPeerPrefix !== false,
+    linkedHosts: effective.linkedHosts ?? [],
     linkedWorkspaces: updatedLinkedWorkspaces,
-    sessions: cfg.sessions ?? {},
-    messageUpload: cfg.messageUpload ?? {},
-    contextRefresh: cfg.contextRefresh ?? {},
-    localContext: cfg.localContext ?? {},
-    enabled: cfg.enabled !== false,
-    logging: cfg.logging !== false,
-    saveMessages: cfg.saveMessages !== false,
+    sessions: effective.sessions ?? {},
+    messageUpload: effective.messageUpload ?? {},
+    toolResults: effective.toolResults ?? {},
+    toolUpload: effective.toolUpload ?? {},
+    contextRefresh: effective.contextRefresh ?? {},
+    searchQuery: effective.searchQuery ?? {},
+    relevance: effective.relevance ?? {},
+    dialectic: effective.dialectic ?? {},
+    contextBudget: effective.contextBudget ?? {},
+    tokenizer: effective.tokenizer ?? DEFAULT_TOKENIZER,
+    localContext: effective.localContext ?? {},
+    redaction: effective.redaction ?? {},
+    pathRules: effective.pathRules ?? [],
+    captureRules: effective.captureRules ?? [],
+    enabled: effective.enabled !== false,
+    logging: effective.logging !== false,
+    saveMessages: effective.saveMessages !== false,
   };
 
   // Warn about stale sessions when changing fields that affect session routing
@@ -485,8 +832,375 @@ function handleSetConfig(args: Record<string, unknown>) {
   };
 }
 
+// ============================================
+// incognito handler
+// ============================================
+
+/**
+ * The directory of the Claude window that started this server. Claude Code
+ * runs one MCP server per window, in its project directory, so unlike the
+ * last-active cwd this can't point at another open window.
+ */
+function getServerProjectDir(): string {
+  return process.env.CLAUDE_PROJECT_DIR || process.cwd();
+}
+
+function handleIncognito(args: Record<string, unknown> | undefined) {
+  // Same lookup the hooks use: the session that session-start recorded for
+  // this directory. Never fall back to whichever window ran a hook last, and
+  // refuse to pick when several sessions are open in the same directory.
+  const cwd = getServerProjectDir();
+  const instanceId = getInstanceIdForCwd(cwd);
+  if (!instanceId) {
+    return {
+      content: [{ type: "text", text: JSON.stringify({ success: false, error: `No Claude session has started in ${cwd}, so the session to take off the record can't be determined` }, null, 2) }],
+      isError: true,
+    };
+  }
+  const open = getOpenInstancesForCwd(cwd);
+  if (open.length > 1) {
+    return {
+      content: [{ type: "text", text: JSON.stringify({ success: false, error: `${open.length} Claude sessions are open in ${cwd} and the tool can't tell which one called it. Close the others, or use /honcho:config path rules to stop capture for this directory.` }, null, 2) }],
+      isError: true,
+    };
+  }
+  if (args?.enabled !== undefined && typeof args.enabled !== "boolean") {
+    return {
+      content: [{ type: "text", text: JSON.stringify({ success: false, error: "enabled must be a boolean" }, null, 2) }],
+      isError: true,
+    };
+  }
+
+  const previous = getIncognito(instanceId);
+  const enabled = typeof args?.enabled === "boolean" ? args.enabled : !previous;
+  setIncognito(instanceId, enabled, cwd);
+  const entry = getIncognito(instanceId);
+
+  return {
+    content: [{
+      type: "text",
+      text: JSON.stringify({
+        success: true,
+        incognito: enabled,
+        changed: enabled !== !!previous,
+        since: entry?.since ?? null,
+        instanceId,
+        message: enabled
+          ? "Incognito on: prompts, tool activity and responses in this session are not saved to Honcho. Memory is still read. Ends automatically when the session ends."
+          : "Incognito off: this session is being recorded again. Nothing from the incognito period was saved.",
+      }, null, 2),
+    }],
+  };
+}
+
+// ============================================
+// search handler
+// ============================================
+
+function toolError(error: string) {
+  return {
+    content: [{ type: "text", text: JSON.stringify({ success: false, error }, null, 2) }],
+    isError: true,
+  };
+}
+
+const SEARCH_SCOPES = ["session", "peer", "workspace", "linked"] as const;
+type SearchScope = typeof SEARCH_SCOPES[number];
+
+// Content-prefix types ("[Tool]") are matched locally, so fetch extra to fill the limit
+const PREFIX_FILTER_OVERFETCH = 5;
+
+function parseSearchDate(value: unknown, field: string): string | { error: string } | undefined {
+  if (value === undefined || value === null || value === "") return undefined;
+  const time = typeof value === "string" ? Date.parse(value) : NaN;
+  if (Number.isNaN(time)) {
+    return { error: `${field} must be an ISO date, e.g. 2026-01-31 or 2026-01-31T12:00:00Z` };
+  }
+  return new Date(time).toISOString();
+}
+
+/**
+ * Search messages in the current session, by one peer across all sessions,
+ * across the workspace, or across the workspace and its linked workspaces.
+ * Results from several workspaces are interleaved by rank and labelled with
+ * the session and workspace they came from.
+ */
+async function handleSearch(honcho: Honcho, config: HonchoCLAUDEConfig, cwd: string, args: Record<string, unknown> | undefined) {
+  const query = typeof args?.query === "string" ? args.query.trim() : "";
+  if (!query) {
+    return toolError("query must be a non-empty string");
+  }
+  const scope = (args?.scope ?? "session") as SearchScope;
+  if (!SEARCH_SCOPES.includes(scope)) {
+    return toolError(`scope must be one of: ${SEARCH_SCOPES.join(", ")}`);
+  }
+  const limit = Math.min(50, Math.max(1, Math.floor(Number(args?.limit ?? 10)) || 10));
+  const peer = typeof args?.peer === "string" && args.peer ? args.peer : undefined;
+  const type = typeof args?.type === "string" && args.type ? args.type : undefined;
+  const since = parseSearchDate(args?.since, "since");
+  const until = parseSearchDate(args?.until, "until");
+  for (const date of [since, until]) {
+    if (typeof date === "object") return toolError(date.error);
+  }
+
+  // Honcho filters: author, creation date and metadata.type. Messages like
+  // "[Tool] ..." have no metadata type, so a bracketed type matches the prefix.
+  const filters: Record<string, unknown> = {};
+  if (peer && scope !== "peer") filters.peer_id = peer;
+  if (since || until) {
+    filters.created_at = { ...(since ? { gte: since } : {}), ...(until ? { lte: until } : {}) };
+  }
+  const contentPrefix = type?.startsWith("[") ? type : undefined;
+  if (type && !contentPrefix) filters.metadata = { type };
+  const options = {
+    filters: Object.keys(filters).length > 0 ? filters : undefined,
+    limit: contentPrefix ? Math.min(100, limit * PREFIX_FILTER_OVERFETCH) : limit,
+  };
+
+  const sources: Array<{ workspace: string; search: Promise<any[]> }> = [];
+  switch (scope) {
+    case "session": {
+      const sessionName = getSessionName(cwd);
+      sources.push({ workspace: config.workspace, search: honcho.session(sessionName).then((s) => s.search(query, options)) });
+      break;
+    }
+    case "peer":
+      sources.push({ workspace: config.workspace, search: honcho.peer(peer ?? config.peerName).then((p) => p.search(query, options)) });
+      break;
+    case "workspace":
+      sources.push({ workspace: config.workspace, search: honcho.search(query, options) });
+      break;
+    case "linked":
+      sources.push({ workspace: config.workspace, search: honcho.search(query, options) });
+      for (const ws of getLinkedWorkspaces()) {
+        const linkedClient = new Honcho({ ...getHonchoClientOptions(config), workspaceId: ws });
+        sources.push({ workspace: ws, search: linkedClient.search(query, options) });
+      }
+      break;
+  }
+
+  const settled = await Promise.allSettled(sources.map((s) => s.search));
+  const warnings: string[] = [];
+  const lists = settled.map((result, i) => {
+    if (result.status === "rejected") {
+      warnings.push(`${sources[i].workspace}: ${result.reason instanceof Error ? result.reason.message : String(result.reason)}`);
+      return [];
+    }
+    const messages = result.value.filter((msg: any) => !contentPrefix || String(msg.content ?? "").startsWith(contentPrefix));
+    return messages.map((msg: any) => ({
+      content: msg.content,
+      peerId: msg.peerId ?? msg.peer,
+      session: msg.sessionId ?? msg.session_id ?? null,
+      workspace: sources[i].workspace,
+      type: msg.metadata?.type ?? String(msg.content ?? "").match(/^\[[^\]]+\]/)?.[0] ?? null,
+      createdAt: msg.createdAt || msg.created_at,
+    }));
+  });
+  if (warnings.length === sources.length) {
+    throw new Error(warnings.join("; "));
+  }
+
+  // Interleave by rank so one workspace can't crowd out the others
+  const results: any[] = [];
+  for (let rank = 0; results.length < limit && lists.some((list) => rank < list.length); rank++) {
+    for (const list of lists) {
+      if (rank < list.length && results.length < limit) results.push(list[rank]);
+    }
+  }
+
+  return {
+    content: [{
+      type: "text",
+      text: JSON.stringify({
+        scope,
+        query,
+        filters: { peer: peer ?? null, type: type ?? null, since: since ?? null, until: until ?? null },
+        count: results.length,
+        results,
+        ...(warnings.length ? { warnings } : {}),
+      }, null, 2),
+    }],
+  };
+}
+
+// ============================================
+// Conclusion handlers
+// ============================================
+
+const MAX_CONCLUSION_PAGE_SIZE = 100;
+// A text filter scans pages until it has enough matches, up to this many conclusions
+const MAX_CONCLUSIONS_SCANNED = 1000;
+
+function formatConclusion(c: { id: string; content: string; sessionId: string | null; createdAt: string }) {
+  return { id: c.id, content: c.content, sessionId: c.sessionId, createdAt: c.createdAt };
+}
+
+/** Honcho can't fetch a conclusion by id, so scan for it (up to MAX_CONCLUSIONS_SCANNED) */
+async function findConclusion(scope: ConclusionScope, id: string) {
+  let scanned = 0;
+  for await (const conclusion of await scope.list({ page: 1, size: MAX_CONCLUSION_PAGE_SIZE })) {
+    if (conclusion.id === id) return conclusion;
+    if (++scanned >= MAX_CONCLUSIONS_SCANNED) break;
+  }
+  return null;
+}
+
+/**
+ * Conclusions held locally (the per-prompt context cache and prefetched
+ * session-start sections) would keep showing an edited or deleted one
+ */
+function invalidateConclusionCaches(): string[] {
+  clearUserContextOnly();
+  clearStartupSections();
+  return ["userContext", "startupSections"];
+}
+
+async function handleListConclusions(honcho: Honcho, config: HonchoCLAUDEConfig, cwd: string, args: Record<string, unknown> | undefined) {
+  const peerName = typeof args?.peer === "string" && args.peer ? args.peer : config.peerName;
+  const page = Math.max(1, Math.floor(Number(args?.page ?? 1)) || 1);
+  const size = Math.min(MAX_CONCLUSION_PAGE_SIZE, Math.max(1, Math.floor(Number(args?.size ?? 20)) || 20));
+  const session = args?.session === "current" ? getSessionName(cwd) : typeof args?.session === "string" && args.session ? args.session : undefined;
+  const text = typeof args?.text === "string" ? args.text.trim().toLowerCase() : "";
+
+  const scope = (await honcho.peer(peerName)).conclusions;
+
+  if (!text) {
+    const result = await scope.list({ page, size, session });
+    return {
+      content: [{
+        type: "text",
+        text: JSON.stringify({
+          peer: peerName,
+          session: session ?? null,
+          page: result.page,
+          size: result.size,
+          total: result.total,
+          pages: result.pages,
+          conclusions: result.items.map(formatConclusion),
+        }, null, 2),
+      }],
+    };
+  }
+
+  // Text filter: page through matches rather than through the raw list
+  const skip = (page - 1) * size;
+  const matches: ReturnType<typeof formatConclusion>[] = [];
+  let matched = 0;
+  let scanned = 0;
+  let hasMore = false;
+  for await (const conclusion of await scope.list({ page: 1, size: MAX_CONCLUSION_PAGE_SIZE, session })) {
+    if (++scanned > MAX_CONCLUSIONS_SCANNED) break;
+    if (!conclusion.content.toLowerCase().includes(text)) continue;
+    if (matched++ < skip) continue;
+    if (matches.length === size) {
+      hasMore = true;
+      break;
+    }
+    matches.push(formatConclusion(conclusion));
+  }
+
+  return {
+    content: [{
+      type: "text",
+      text: JSON.stringify({
+        peer: peerName,
+        session: session ?? null,
+        text,
+        page,
+        size,
+        hasMore,
+        scanned: Math.min(scanned, MAX_CONCLUSIONS_SCANNED),
+        ...(scanned > MAX_CONCLUSIONS_SCANNED ? { warning: `Stopped after ${MAX_CONCLUSIONS_SCANNED} conclusions; narrow by session or peer to see older ones.` } : {}),
+        conclusions: matches,
+      }, null, 2),
+    }],
+  };
+}
+
+async function handleDeleteConclusion(honcho: Honcho, config: HonchoCLAUDEConfig, args: Record<string, unknown> | undefined) {
+  const id = args?.id;
+  if (typeof id !== "string" || !id) {
+    return toolError("id must be a non-empty string");
+  }
+  const peerName = typeof args?.peer === "string" && args.peer ? args.peer : config.peerName;
+
+  // Same gate as DANGEROUS_FIELDS: nothing is deleted without confirm=true
+  if (args?.confirm !== true) {
+    return {
+      content: [{
+        type: "text",
+        text: JSON.stringify({
+          success: false,
+          id,
+          requiresConfirm: true,
+          description: `Permanently deletes conclusion ${id} about ${peerName} from Honcho. Pass confirm=true to proceed.`,
+        }, null, 2),
+      }],
+    };
+  }
+
+  await (await honcho.peer(peerName)).conclusions.delete(id);
+  return {
+    content: [{
+      type: "text",
+      text: JSON.stringify({ success: true, deleted: id, peer: peerName, cacheInvalidation: invalidateConclusionCaches() }, null, 2),
+    }],
+  };
+}
+
+/**
+ * Honcho has no in-place edit: the corrected conclusion is created first and
+ * the old one deleted only once that succeeded, so a failure never loses both.
+ * The replacement stays in the original's session unless one is given.
+ */
+async function handleUpdateConclusion(honcho: Honcho, config: HonchoCLAUDEConfig, args: Record<string, unknown> | undefined) {
+  const id = args?.id;
+  const content = typeof args?.content === "string" ? args.content.trim() : "";
+  if (typeof id !== "string" || !id) {
+    return toolError("id must be a non-empty string");
+  }
+  if (!content) {
+    return toolError("content must be a non-empty string");
+  }
+  const peerName = typeof args?.peer === "string" && args.peer ? args.peer : config.peerName;
+
+  const scope = (await honcho.peer(peerName)).conclusions;
+  const original = await findConclusion(scope, id);
+  if (!original) {
+    return toolError(`Conclusion ${id} about ${peerName} not found among the ${MAX_CONCLUSIONS_SCANNED} most recent; nothing was changed`);
+  }
+  const sessionId = typeof args?.session === "string" && args.session ? args.session : original.sessionId ?? undefined;
+
+  const [created] = await scope.create({ content, sessionId });
+  if (!created) {
+    return toolError("Honcho did not return the new conclusion; the old one was kept");
+  }
+
+  const warnings: string[] = [];
+  try {
+    await scope.delete(id);
+  } catch (error) {
+    warnings.push(`New conclusion saved, but deleting ${id} failed: ${error instanceof Error ? error.message : String(error)}. Delete it with delete_conclusion.`);
+  }
+
+  return {
+    content: [{
+      type: "text",
+      text: JSON.stringify({
+        success: true,
+        replaced: id,
+        conclusion: formatConclusion(created),
+        peer: peerName,
+        cacheInvalidation: invalidateConclusionCaches(),
+        ...(warnings.length ? { warnings } : {}),
+      }, null, 2),
+    }],
+  };
+}
+
 export async function runMcpServer(): Promise<void> {
   setDetectedHost("claude_code");
+  setProjectDir(getLastActiveCwd() || process.cwd());
   const config = loadConfig();
   if (!config) {
     console.error("[honcho-mcp] Not configured. Run: honcho init");
@@ -501,6 +1215,8 @@ export async function runMcpServer(): Promise<void> {
     {
       capabilities: {
         tools: {},
+        resources: {},
+        prompts: {},
       },
     }
   );
@@ -514,7 +1230,7 @@ export async function runMcpServer(): Promise<void> {
       tools: [
         {
           name: "search",
-          description: "Search across messages in the current Honcho session using semantic search",
+          description: "Semantic search across Honcho messages: the current session by default, or one peer's messages, the whole workspace, or the workspace plus linked workspaces. Each result is labelled with its session and workspace.",
           inputSchema: {
             type: "object",
             properties: {
@@ -522,6 +1238,28 @@ export async function runMcpServer(): Promise<void> {
                 type: "string",
                 description: "Search query",
               },
+              scope: {
+                type: "string",
+                enum: [...SEARCH_SCOPES],
+                description: "session (this directory's session), peer (one peer's messages in every session), workspace (every session), linked (workspace plus linked workspaces)",
+                default: "session",
+              },
+              peer: {
+                type: "string",
+                description: "Only messages by this peer. With scope=peer, the peer to search (default: the user's peer)",
+              },
+              type: {
+                type: "string",
+                description: "Only messages of this metadata type (e.g. git_change, assistant_prose, tool_failure), or with this content prefix when bracketed (e.g. [Tool], [Git External])",
+              },
+              since: {
+                type: "string",
+                description: "Only messages created at or after this ISO date",
+              },
+              until: {
+                type: "string",
+                description: "Only messages created at or before this ISO date",
+              },
               limit: {
                 type: "number",
                 description: "Max results (1-50)",
@@ -533,13 +1271,31 @@ export async function runMcpServer(): Promise<void> {
         },
         {
           name: "chat",
-          description: "Query Honcho's knowledge about the user using dialectic reasoning",
+          description: "Query Honcho's knowledge about the user, or the AI peer's own history, using dialectic reasoning",
           inputSchema: {
             type: "object",
             properties: {
               query: {
                 type: "string",
-                description: "Natural language question about the user",
+                description: "Natural language question about the peer",
+              },
+              peer: {
+                type: "string",
+                enum: ["user", "ai"],
+                description: "Ask about the user, or about the AI peer's own past work",
+                default: "user",
+              },
+              reasoningLevel: {
+                type: "string",
+                enum: [...REASONING_LEVELS],
+                description: "Higher levels reason longer and cost more",
+                default: "medium",
+              },
+              scope: {
+                type: "string",
+                enum: ["session", "global"],
+                description: "session (only what was learned in this directory's session) or global (everything Honcho knows about the peer)",
+                default: "session",
               },
             },
             required: ["query"],
@@ -559,6 +1315,98 @@ export async function runMcpServer(): Promise<void> {
             required: ["content"],
           },
         },
+        {
+          name: "list_conclusions",
+          description: "List what Honcho has concluded about a peer (the user by default), with ids for update_conclusion and delete_conclusion",
+          inputSchema: {
+            type: "object",
+            properties: {
+              peer: {
+                type: "string",
+                description: "Peer whose conclusions to list (default: the user's peer)",
+              },
+              session: {
+                type: "string",
+                description: "Only conclusions from this session name, or \"current\" for this directory's session",
+              },
+              text: {
+                type: "string",
+                description: "Only conclusions containing this text (case-insensitive)",
+              },
+              page: {
+                type: "number",
+                description: "Page number, from 1",
+                default: 1,
+              },
+              size: {
+                type: "number",
+                description: "Conclusions per page (1-100)",
+                default: 20,
+              },
+            },
+          },
+        },
+        {
+          name: "delete_conclusion",
+          description: "Permanently delete a conclusion by id. Requires confirm=true; without it, returns a warning instead of deleting.",
+          inputSchema: {
+            type: "object",
+            properties: {
+              id: {
+                type: "string",
+                description: "Conclusion id from list_conclusions",
+              },
+              peer: {
+                type: "string",
+                description: "Peer the conclusion is about (default: the user's peer)",
+              },
+              confirm: {
+                type: "boolean",
+                description: "Required true to delete. Without it, returns a warning instead of deleting.",
+              },
+            },
+            required: ["id"],
+          },
+        },
+        {
+          name: "update_conclusion",
+          description: "Correct a conclusion: saves the new text as a conclusion, then deletes the old one",
+          inputSchema: {
+            type: "object",
+            properties: {
+              id: {
+                type: "string",
+                description: "Conclusion id from list_conclusions",
+              },
+              content: {
+                type: "string",
+                description: "Corrected text",
+              },
+              peer: {
+                type: "string",
+                description: "Peer the conclusion is about (default: the user's peer)",
+              },
+              session: {
+                type: "string",
+                description: "Session to attach the corrected conclusion to (default: the original conclusion's session)",
+              },
+            },
+            required: ["id", "content"],
+          },
+        },
+        {
+          name: "incognito",
+          description: "Turn incognito mode on or off for the current Claude session. While on, nothing from this session is saved to Honcho, but memory is still read. Omit enabled to toggle.",
+          inputSchema: {
+            type: "object",
+            properties: {
+              enabled: {
+                type: "boolean",
+                description: "true to stop recording this session, false to resume. Omit to toggle.",
+              },
+            },
+          },
+        },
         {
           name: "get_config",
           description: "Get the current Honcho plugin configuration, cache state, and diagnostic warnings",
@@ -592,16 +1440,45 @@ export async function runMcpServer(): Promise<void> {
                   "messageUpload.maxUserTokens",
                   "messageUpload.maxAssistantTokens",
                   "messageUpload.summarizeAssistant",
+                  "toolResults.captureFailures",
+                  "toolResults.maxErrorLines",
+                  "toolUpload.flush",
+                  "toolUpload.maxPending",
+                  "toolUpload.maxWaitSeconds",
                   "contextRefresh.messageThreshold",
                   "contextRefresh.ttlSeconds",
                   "contextRefresh.skipDialectic",
+                  "contextRefresh.startupDeadlineSeconds",
+                  "contextRefresh.prefetch",
+                  "contextRefresh.skipInjected",
+                  "contextRefresh.refreshAfterCompaction",
+                  "searchQuery.windowSize",
+                  "searchQuery.recentWeight",
+                  "searchQuery.recentDecay",
+                  "relevance.minScore",
+                  "relevance.maxConclusions",
+                  "relevance.recencyHalfLifeDays",
+                  "dialectic.sessionStart.reasoningLevel",
+                  "dialectic.sessionStart.scope",
+                  "dialectic.preCompact.reasoningLevel",
+                  "dialectic.preCompact.scope",
+                  "contextBudget.sessionStartTokens",
+                  "contextBudget.preCompactTokens",
+                  "contextBudget.sections",
+                  "tokenizer",
                   "localContext.maxEntries",
+                  "redaction.enabled",
+                  "redaction.disabledDetectors",
+                  "redaction.patterns",
+                  "captureRules",
+                  "pathRules.add",
+                  "pathRules.remove",
                   "sessions.set",
                   "sessions.remove",
                 ],
               },
               value: {
-                description: "New value. For sessions.set: {path, name}. For sessions.remove: {path}.",
+                description: "New value. For sessions.set: {path, name}. For sessions.remove: {path}. For redaction.patterns: array of regex strings or {name, pattern, flags}. For pathRules.add: {path, action, scope}. For pathRules.remove: {path}. For contextBudget.sections: {sectionId: {priority, minTokens, maxTokens}}. For captureRules: the full array of {tool, action, match, exclude, summary}.",
               },
               confirm: {
                 type: "boolean",
@@ -615,10 +1492,46 @@ export async function runMcpServer(): Promise<void> {
     };
   });
 
+  // Resources and prompts read memory, so they follow the same context policy
+  // as the read tools. Errors are thrown and become protocol errors.
+  const requireContext = (cwd: string) => {
+    const policy = getPolicy(cwd, loadConfig(), getInstanceIdForCwd(cwd) || getClaudeInstanceId());
+    if (!policy.context) {
+      throw new Error(`Honcho context is off for ${cwd} (${policy.reason})`);
+    }
+  };
+
+  server.setRequestHandler(ListResourcesRequestSchema, async () => {
+    return { resources: listResources(config) };
+  });
+
+  server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => {
+    return { resourceTemplates: listResourceTemplates() };
+  });
+
+  server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+    const cwd = getLastActiveCwd() || process.cwd();
+    setProjectDir(cwd);
+    requireContext(cwd);
+    return { contents: [await readResource(honcho, config, cwd, request.params.uri)] };
+  });
+
+  server.setRequestHandler(ListPromptsRequestSchema, async () => {
+    return { prompts: listPrompts() };
+  });
+
+  server.setRequestHandler(GetPromptRequestSchema, async (request) => {
+    const cwd = getLastActiveCwd() || process.cwd();
+    setProjectDir(cwd);
+    requireContext(cwd);
+    return getPrompt(honcho, config, cwd, request.params.name, request.params.arguments);
+  });
+
   // Handle tool calls
   server.setRequestHandler(CallToolRequestSchema, async (request) => {
     const { name, arguments: args } = request.params;
     const cwd = getLastActiveCwd() || process.cwd();
+    setProjectDir(cwd);
 
     // ── Config tools (no Honcho session needed) ──
 
@@ -630,43 +1543,56 @@ export async function runMcpServer(): Promise<void> {
       return handleSetConfig(args as Record<string, unknown>);
     }
 
+    if (name === "incognito") {
+      return handleIncognito(args);
+    }
+
     // ── Honcho session tools ──
 
+    // Same path rules and incognito state as the hooks: writing needs capture,
+    // reading needs context
+    const policy = getPolicy(cwd, loadConfig(), getInstanceIdForCwd(cwd) || getClaudeInstanceId());
+    const scope = name === "create_conclusion" || name === "update_conclusion" ? "capture" : "context";
+    if (!policy[scope]) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Honcho ${scope} is off for ${cwd} (${policy.reason})`,
+          },
+        ],
+        isError: true,
+      };
+    }
+
     const sessionName = getSessionName(cwd);
 
     try {
       const session = await honcho.session(sessionName);
 
       switch (name) {
-        case "search": {
-          const query = args?.query as string;
-          const limit = (args?.limit as number) ?? 10;
-
-          const messages = await session.search(query, { limit });
-
-          const results = messages.map((msg: any) => ({
-            content: msg.content,
-            peerId: msg.peer,
-            createdAt: msg.createdAt || msg.created_at,
-          }));
-
-          return {
-            content: [
-              {
-                type: "text",
-                text: JSON.stringify(results, null, 2),
-              },
-            ],
-          };
-        }
+        case "search":
+          return await handleSearch(honcho, config, cwd, args);
 
         case "chat": {
           const query = args?.query as string;
-          const userPeer = await honcho.peer(config.peerName);
-
-          const response = await userPeer.chat(query, {
-            session,
-            reasoningLevel: "medium",
+          const target = args?.peer ?? "user";
+          const reasoningLevel = args?.reasoningLevel ?? "medium";
+          const scope = args?.scope ?? "session";
+          if (target !== "user" && target !== "ai") {
+            return toolError("peer must be \"user\" or \"ai\"");
+          }
+          if (!REASONING_LEVELS.includes(reasoningLevel as ReasoningLevel)) {
+            return toolError(`reasoningLevel must be one of: ${REASONING_LEVELS.join(", ")}`);
+          }
+          if (scope !== "session" && scope !== "global") {
+            return toolError("scope must be \"session\" or \"global\"");
+          }
+          const chatPeer = await honcho.peer(target === "ai" ? config.aiPeer : config.peerName);
+
+          const response = await chatPeer.chat(query, {
+            session: scope === "session" ? session : undefined,
+            reasoningLevel: reasoningLevel as ReasoningLevel,
           });
 
           return {
@@ -698,6 +1624,15 @@ export async function runMcpServer(): Promise<void> {
           };
         }
 
+        case "list_conclusions":
+          return await handleListConclusions(honcho, config, cwd, args);
+
+        case "delete_conclusion":
+          return await handleDeleteConclusion(honcho, config, args);
+
+        case "update_conclusion":
+          return await handleUpdateConclusion(honcho, config, args);
+
         default:
           return {
             content: [
@@ -0,0 +1,447 @@
+/**
+ * Durable outbox for Honcho uploads
+ *
+ * Every outbound message is appended to ~/.honcho/outbox.jsonl before any
+ * network call is made. Any hook can then drain the outbox: due entries are
+ * claimed under the outbox lock with a short lease (so concurrent drains
+ * never send the same entry twice), grouped by workspace + session, sent in
+ * batches, and only removed once the API has accepted them. A failed batch
+ * stays on disk with exponential backoff, so a prompt written while offline
+ * is uploaded by whichever hook next runs with a working connection. Entries
+ * that keep failing (or that the API rejects outright) are moved to
+ * outbox-dead.jsonl after a capped number of attempts, so they can't hold up
+ * the rest of their session forever.
+ *
+ * Enqueueing is also the single choke point for redaction: every message is
+ * passed through redactText() with the queuing directory's config before it
+ * is written, so secrets never reach disk and a drain started from another
+ * project can't send it with different patterns.
+ */
+
+import { Honcho, HonchoError, type Peer, type MessageInput } from "@honcho-ai/sdk";
+import { homedir } from "os";
+import { join } from "path";
+import { createHash } from "crypto";
+import { existsSync, readFileSync, appendFileSync, mkdirSync } from "fs";
+import { getHonchoClientOptions, type HonchoCLAUDEConfig, type ToolUploadConfig } from "./config.js";
+import { logApiCall, logFlow } from "./log.js";
+import { redactText } from "./redact.js";
+import { withFileLock, tryWithFileLock, writeFileAtomic, readJsonFile, updateJsonFile, appendFileLocked } from "./storage.js";
+
+const CACHE_DIR = join(homedir(), ".honcho");
+const OUTBOX_FILE = join(CACHE_DIR, "outbox.jsonl");
+const SENT_KEYS_FILE = join(CACHE_DIR, "outbox-sent.json");
+const DEAD_LETTER_FILE = join(CACHE_DIR, "outbox-dead.jsonl");
+
+const MAX_BATCH_SIZE = 50;
+const MAX_SENT_KEYS = 1000;
+const BACKOFF_BASE_MS = 2000;
+const BACKOFF_MAX_MS = 15 * 60 * 1000;
+const DEFAULT_DRAIN_TIMEOUT_MS = 8000;
+// A claim outlives the drain's own deadline by this much, then lapses if the hook died
+const LEASE_MARGIN_MS = 30 * 1000;
+// Attempts before an entry is dead-lettered: network and server errors get
+// hours of backoff, a request the API rejects as invalid only a few tries
+const MAX_ATTEMPTS = 20;
+const MAX_REJECTED_ATTEMPTS = 3;
+
+function ensureCacheDir(): void {
+  if (!existsSync(CACHE_DIR)) {
+    mkdirSync(CACHE_DIR, { recursive: true });
+  }
+}
+
+// ============================================
+// Entry types
+// ============================================
+
+/** A message as handed to the outbox by a hook */
+export interface OutboxMessage {
+  sessionName: string;
+  peerName: string;
+  content: string;
+  metadata?: Record<string, unknown>;
+  /** When the message happened (defaults to enqueue time) */
+  createdAt?: string;
+  cwd?: string;
+}
+
+/** A message as persisted in outbox.jsonl */
+export interface OutboxEntry extends OutboxMessage {
+  /** Idempotency key — stable hash of workspace, session, peer, time and content */
+  key: string;
+  workspace: string;
+  createdAt: string;
+  queuedAt: string;
+  attempts: number;
+  /** Epoch ms before which this entry should not be retried */
+  nextAttemptAt: number;
+  lastError?: string;
+  /** Items redacted at enqueue time (absent on entries queued before redaction moved here) */
+  redactions?: number;
+  /** Epoch ms until which a running drain holds this entry */
+  inFlightUntil?: number;
+}
+
+export interface DrainResult {
+  sent: number;
+  failed: number;
+  pending: number;
+  /** Entries moved to the dead-letter file by this drain */
+  deadLettered: number;
+}
+
+export interface OutboxStats {
+  /** Entries waiting to be uploaded */
+  queued: number;
+  /** Of those, entries not held back by retry backoff */
+  due: number;
+  /** Age of the oldest due entry (0 if none) */
+  oldestDueMs: number;
+}
+
+function idempotencyKey(workspace: string, msg: OutboxMessage, createdAt: string): string {
+  return createHash("sha256")
+    .update([workspace, msg.sessionName, msg.peerName, createdAt, msg.content].join("\u0000"))
+    .digest("hex")
+    .slice(0, 32);
+}
+
+/**
+ * A 4xx other than timeout or rate limiting: sending the same request again
+ * won't help
+ */
+function isRejection(error: unknown): boolean {
+  return error instanceof HonchoError && error.status >= 400 && error.status < 500 && error.status !== 408 && error.status !== 429;
+}
+
+/** Exponential backoff with jitter: 2s, 4s, 8s ... capped at 15 minutes */
+function backoffMs(attempts: number): number {
+  const base = Math.min(BACKOFF_BASE_MS * 2 ** Math.max(0, attempts - 1), BACKOFF_MAX_MS);
+  return Math.round(base * (0.8 + Math.random() * 0.4));
+}
+
+// ============================================
+// Storage
+// ============================================
+
+export function getOutboxPath(): string {
+  return OUTBOX_FILE;
+}
+
+export function getDeadLetterPath(): string {
+  return DEAD_LETTER_FILE;
+}
+
+export function loadOutbox(): OutboxEntry[] {
+  ensureCacheDir();
+  if (!existsSync(OUTBOX_FILE)) {
+    return [];
+  }
+  try {
+    const content = readFileSync(OUTBOX_FILE, "utf-8");
+    const entries: OutboxEntry[] = [];
+    for (const line of content.split("\n")) {
+      if (!line.trim()) continue;
+      try {
+        entries.push(JSON.parse(line));
+      } catch {
+        // Skip a torn line rather than losing the whole outbox
+      }
+    }
+    return entries;
+  } catch {
+    return [];
+  }
+}
+
+function saveOutbox(entries: OutboxEntry[]): void {
+  ensureCacheDir();
+  writeFileAtomic(OUTBOX_FILE, entries.map((e) => JSON.stringify(e)).join("\n") + (entries.length ? "\n" : ""));
+}
+
+/** Re-read the outbox and apply a change under its lock, so entries appended by other hooks survive */
+function updateOutbox(mutate: (entries: OutboxEntry[]) => OutboxEntry[]): void {
+  withFileLock(OUTBOX_FILE, () => saveOutbox(mutate(loadOutbox())));
+}
+
+function loadSentKeys(): string[] {
+  const keys = readJsonFile<unknown>(SENT_KEYS_FILE, []);
+  return Array.isArray(keys) ? keys : [];
+}
+
+function recordSentKeys(keys: string[]): void {
+  ensureCacheDir();
+  updateJsonFile<unknown>(SENT_KEYS_FILE, [], (current) => {
+    return [...(Array.isArray(current) ? current : []), ...keys].slice(-MAX_SENT_KEYS);
+  }, { pretty: false });
+}
+
+/**
+ * Persist messages to the outbox. Returns the entries that were newly queued
+ * (messages whose idempotency key is already queued are skipped).
+ */
+export function enqueueMessages(config: HonchoCLAUDEConfig, messages: OutboxMessage[]): OutboxEntry[] {
+  if (messages.length === 0) return [];
+  ensureCacheDir();
+  return withFileLock(OUTBOX_FILE, () => appendToOutbox(config, messages));
+}
+
+function appendToOutbox(config: HonchoCLAUDEConfig, messages: OutboxMessage[]): OutboxEntry[] {
+  const queuedKeys = new Set(loadOutbox().map((e) => e.key));
+  const now = new Date().toISOString();
+  const entries: OutboxEntry[] = [];
+  const redacted: Record<string, number> = {};
+  let redactedCount = 0;
+
+  for (const raw of messages) {
+    if (!raw.content.trim()) continue;
+    const { text, count, byDetector } = redactText(raw.content, config.redaction);
+    redactedCount += count;
+    for (const [name, n] of Object.entries(byDetector)) {
+      redacted[name] = (redacted[name] ?? 0) + n;
+    }
+    const msg = { ...raw, content: text };
+    const createdAt = msg.createdAt ?? now;
+    const key = idempotencyKey(config.workspace, msg, createdAt);
+    if (queuedKeys.has(key)) continue;
+    queuedKeys.add(key);
+    entries.push({
+      ...msg,
+      key,
+      workspace: config.workspace,
+      createdAt,
+      queuedAt: now,
+      attempts: 0,
+      nextAttemptAt: 0,
+      redactions: count,
+    });
+  }
+
+  if (redactedCount > 0) {
+    logFlow("redact", `redacted ${redactedCount} item(s) before queueing`, redacted);
+  }
+  if (entries.length > 0) {
+    appendFileSync(OUTBOX_FILE, entries.map((e) => JSON.stringify(e)).join("\n") + "\n");
+    logFlow("outbox", `queued ${entries.length} message(s)`);
+  }
+  return entries;
+}
+
+export function getOutboxStats(): OutboxStats {
+  const entries = loadOutbox();
+  const now = Date.now();
+  const due = entries.filter((e) => e.nextAttemptAt <= now && (e.inFlightUntil ?? 0) <= now);
+  const oldest = due.reduce((min, e) => Math.min(min, Date.parse(e.queuedAt) || now), now);
+  return { queued: entries.length, due: due.length, oldestDueMs: now - oldest };
+}
+
+/**
+ * Whether PostToolUse should drain now. In "batched" mode tool activity
+ * waits in the outbox for the next flush point (prompt, Stop, SessionEnd)
+ * unless enough has piled up or the oldest message has waited too long.
+ */
+export function shouldFlushToolActivity(upload: ToolUploadConfig): { flush: boolean; reason: string; stats: OutboxStats } {
+  const stats = getOutboxStats();
+  if (upload.flush === "immediate") {
+    return { flush: true, reason: "immediate", stats };
+  }
+  if (stats.due >= (upload.maxPending ?? 20)) {
+    return { flush: true, reason: "size", stats };
+  }
+  if (stats.due > 0 && stats.oldestDueMs >= (upload.maxWaitSeconds ?? 120) * 1000) {
+    return { flush: true, reason: "age", stats };
+  }
+  return { flush: false, reason: "batched", stats };
+}
+
+// ============================================
+// Drain
+// ============================================
+
+/**
+ * Under the outbox lock: drop entries already recorded as sent (a hook was
+ * killed between addMessages and removal), then lease every due entry that
+ * no other drain holds. Returns the claimed entries and how many stay queued,
+ * or null if the lock couldn't be taken: claiming unlocked could lease the
+ * same entries as another drain.
+ */
+function claimDueEntries(leaseUntil: number): { claimed: OutboxEntry[]; pending: number } | null {
+  return tryWithFileLock(OUTBOX_FILE, () => {
+    const sentKeys = new Set(loadSentKeys());
+    const entries = loadOutbox();
+    const kept = entries.filter((e) => !sentKeys.has(e.key));
+    const now = Date.now();
+    const claimed: OutboxEntry[] = [];
+    for (const entry of kept) {
+      if (entry.nextAttemptAt <= now && (entry.inFlightUntil ?? 0) <= now) {
+        entry.inFlightUntil = leaseUntil;
+        claimed.push(entry);
+      }
+    }
+    if (claimed.length > 0 || kept.length !== entries.length) {
+      saveOutbox(kept);
+    }
+    return { claimed, pending: kept.length - claimed.length };
+  });
+}
+
+/**
+ * Count a failed attempt on each entry and schedule a retry, or move entries
+ * that have used up `maxAttempts` to the dead-letter file. Returns how many
+ * were dead-lettered.
+ */
+function recordFailure(batch: OutboxEntry[], message: string, maxAttempts: number): number {
+  const failedKeys = new Set(batch.map((e) => e.key));
+  const dead: OutboxEntry[] = [];
+  updateOutbox((current) => current.flatMap((e) => {
+    if (!failedKeys.has(e.key)) return [e];
+    const attempts = e.attempts + 1;
+    const failed = { ...e, attempts, lastError: message.slice(0, 200), inFlightUntil: undefined };
+    if (attempts >= maxAttempts) {
+      dead.push(failed);
+      return [];
+    }
+    return [{ ...failed, nextAttemptAt: Date.now() + backoffMs(attempts) }];
+  }));
+  if (dead.length > 0) {
+    appendFileLocked(DEAD_LETTER_FILE, dead.map((e) => JSON.stringify({ ...e, deadAt: new Date().toISOString() })).join("\n") + "\n");
+    logFlow("outbox", `moved ${dead.length} message(s) to ${DEAD_LETTER_FILE} after ${maxAttempts} failed attempt(s): ${message.slice(0, 200)}`);
+  }
+  return dead.length;
+}
+
+/**
+ * Upload every due outbox entry. Never throws: failures are recorded on the
+ * entries (attempts + backoff) and draining stops at the first failed batch,
+ * since that usually means the network or API is unavailable. A batch the
+ * API rejects is retried one message at a time so only the bad ones fail,
+ * and draining carries on.
+ */
+export async function drainOutbox(
+  config: HonchoCLAUDEConfig,
+  options?: { source?: string; timeoutMs?: number }
+): Promise<DrainResult> {
+  const source = options?.source ?? "outbox";
+  const deadline = Date.now() + (options?.timeoutMs ?? DEFAULT_DRAIN_TIMEOUT_MS);
+  const result: DrainResult = { sent: 0, failed: 0, pending: 0, deadLettered: 0 };
+
+  if (loadOutbox().length === 0) return result;
+
+  const claim = claimDueEntries(deadline + LEASE_MARGIN_MS);
+  if (!claim) {
+    logFlow("outbox", `${source}: outbox busy, skipped (the next hook drains it)`);
+    return result;
+  }
+  const { claimed: due, pending } = claim;
+  result.pending = pending;
+  if (due.length === 0) return result;
+
+  // Group by workspace + session, preserving queue order within each group
+  const groups = new Map<string, OutboxEntry[]>();
+  for (const entry of due) {
+    const groupKey = `${entry.workspace}\u0000${entry.sessionName}`;
+    const group = groups.get(groupKey) ?? [];
+    group.push(entry);
+    groups.set(groupKey, group);
+  }
+  const batches: OutboxEntry[][] = [];
+  for (const group of groups.values()) {
+    for (let i = 0; i < group.length; i += MAX_BATCH_SIZE) {
+      batches.push(group.slice(i, i + MAX_BATCH_SIZE));
+    }
+  }
+
+  const clients = new Map<string, Honcho>();
+  const unattempted: string[] = [];
+  let stopped = false;
+  // Batching metrics for the activity log
+  let requests = 0;
+  let maxWaitMs = 0;
+
+  while (batches.length > 0) {
+    const batch = batches.shift()!;
+    if (stopped || Date.now() > deadline) {
+      result.pending += batch.length;
+      unattempted.push(...batch.map((e) => e.key));
+      continue;
+    }
+
+    const { workspace, sessionName } = batch[0];
+    const startTime = Date.now();
+    try {
+      let honcho = clients.get(workspace);
+      if (!honcho) {
+        // The outbox does its own retrying, so fail fast instead of letting the SDK retry
+        honcho = new Honcho({
+          ...getHonchoClientOptions(config),
+          workspaceId: workspace,
+          timeout: Math.max(1000, deadline - Date.now()),
+          maxRetries: 0,
+        });
+        clients.set(workspace, honcho);
+      }
+      const session = await honcho.session(sessionName);
+      const peers = new Map<string, Peer>();
+      const messages: MessageInput[] = [];
+      for (const entry of batch) {
+        let peer = peers.get(entry.peerName);
+        if (!peer) {
+          peer = await honcho.peer(entry.peerName);
+          peers.set(entry.peerName, peer);
+        }
+        // Entries from before redaction moved to enqueue time still need it
+        const { text, count } = entry.redactions === undefined
+          ? redactText(entry.content, config.redaction)
+          : { text: entry.content, count: entry.redactions };
+        messages.push(peer.message(text, {
+          createdAt: entry.createdAt,
+          metadata: {
+            ...entry.metadata,
+            idempotency_key: entry.key,
+            ...(count > 0 ? { redactions: count } : {}),
+          },
+        }));
+      }
+
+      requests++;
+      await session.addMessages(messages);
+
+      const keys = batch.map((e) => e.key);
+      recordSentKeys(keys);
+      const sent = new Set(keys);
+      updateOutbox((current) => current.filter((e) => !sent.has(e.key)));
+      result.sent += batch.length;
+      for (const entry of batch) {
+        maxWaitMs = Math.max(maxWaitMs, Date.now() - (Date.parse(entry.queuedAt) || Date.now()));
+      }
+      logApiCall("session.addMessages", "POST", `${source}: ${batch.length} outbox msg(s) → ${sessionName}`, Date.now() - startTime, true);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      logApiCall("session.addMessages", "POST", `${source}: ${batch.length} outbox msg(s) → ${sessionName} (${message})`, Date.now() - startTime, false);
+      const rejected = isRejection(error);
+      if (rejected && batch.length > 1) {
+        // One bad message shouldn't sink the batch: send them one at a time
+        batches.unshift(...batch.map((e) => [e]));
+        continue;
+      }
+      result.failed += batch.length;
+      result.deadLettered += recordFailure(batch, message, rejected ? MAX_REJECTED_ATTEMPTS : MAX_ATTEMPTS);
+      // A rejection is about this batch; anything else means the API is unavailable
+      if (!rejected) stopped = true;
+    }
+  }
+
+  // Hand back what this drain claimed but didn't get to
+  if (unattempted.length > 0) {
+    const released = new Set(unattempted);
+    updateOutbox((current) => current.map((e) => (released.has(e.key) ? { ...e, inFlightUntil: undefined } : e)));
+  }
+
+  logFlow("outbox", `${source}: drained ${result.sent} sent in ${requests} request(s), ${result.failed} failed, ${result.pending} pending${result.deadLettered ? `, ${result.deadLettered} dead-lettered` : ""}`, {
+    requests,
+    per_request: requests ? Math.round((result.sent + result.failed) / requests) : 0,
+    max_wait_s: Math.round(maxWaitMs / 1000),
+  });
+  return result;
+}
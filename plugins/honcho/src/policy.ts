@@ -0,0 +1,130 @@
+/**
+ * Per-directory capture/context policy
+ *
+ * Every hook and the MCP server ask the same two questions once per
+ * invocation: may we record what happens in this directory (capture), and
+ * may we fetch and inject memory here (context)? Both are answered here,
+ * from the global `enabled` flag, the `pathRules` globs in config, and the
+ * session's incognito flag.
+ */
+
+import { homedir } from "os";
+import { dirname, join, resolve } from "path";
+import { loadConfig, type HonchoCLAUDEConfig, type PathRule } from "./config.js";
+import { isIncognito } from "./cache.js";
+
+export interface HonchoPolicy {
+  /** Record activity: upload messages, tool summaries, git observations, local work log */
+  capture: boolean;
+  /** Fetch memory from Honcho and inject it into the conversation */
+  context: boolean;
+  /** This Claude session is off the record (capture is off) */
+  incognito?: boolean;
+  /** Why capture and/or context is off (for logs and status lines) */
+  reason?: string;
+}
+
+// ============================================
+// Path rules
+// ============================================
+
+function expandPattern(pattern: string): string {
+  if (pattern === "~" || pattern.startsWith("~/")) {
+    return join(homedir(), pattern.slice(1));
+  }
+  // Bare patterns ("secrets-*", "clients/acme") match at any depth
+  if (!pattern.startsWith("/") && !pattern.startsWith("**")) {
+    return `**/${pattern}`;
+  }
+  return pattern;
+}
+
+/**
+ * A rule matches a directory if its glob matches the directory itself or any
+ * of its parents, so excluding `~/clients/acme` also covers everything below it.
+ * A trailing `/**` also matches the base directory.
+ */
+function ruleMatches(rule: PathRule, cwd: string): boolean {
+  const pattern = expandPattern(rule.path);
+  const globs = [new Bun.Glob(pattern)];
+  if (pattern.endsWith("/**")) {
+    globs.push(new Bun.Glob(pattern.slice(0, -3)));
+  }
+
+  let dir = resolve(cwd);
+  while (true) {
+    if (globs.some((g) => g.match(dir))) return true;
+    const parent = dirname(dir);
+    if (parent === dir) return false;
+    dir = parent;
+  }
+}
+
+/**
+ * Evaluate path rules in order; the last matching rule wins for each scope
+ * (like .gitignore), so a later "include" can carve an exception out of an
+ * earlier "exclude".
+ */
+export function matchPathRules(cwd: string, rules: PathRule[]): {
+  capture: boolean;
+  context: boolean;
+  /** The rule that decided each scope, if any matched */
+  captureRule?: PathRule;
+  contextRule?: PathRule;
+} {
+  const result: ReturnType<typeof matchPathRules> = { capture: true, context: true };
+
+  for (const rule of rules) {
+    if (!rule?.path || !ruleMatches(rule, cwd)) continue;
+    const on = rule.action === "include";
+    const scope = rule.scope ?? "all";
+    if (scope === "all" || scope === "capture") {
+      result.capture = on;
+      result.captureRule = rule;
+    }
+    if (scope === "all" || scope === "context") {
+      result.context = on;
+      result.contextRule = rule;
+    }
+  }
+
+  return result;
+}
+
+// ============================================
+// Policy
+// ============================================
+
+/**
+ * Pass `instanceId` to also honor incognito mode for that Claude session:
+ * memory is still read, but nothing is recorded.
+ */
+export function getPolicy(
+  cwd: string,
+  config: HonchoCLAUDEConfig | null = loadConfig(),
+  instanceId?: string | null
+): HonchoPolicy {
+  if (!config) {
+    return { capture: false, context: false, reason: "not configured" };
+  }
+  if (config.enabled === false) {
+    return { capture: false, context: false, reason: "plugin disabled" };
+  }
+
+  const paths = matchPathRules(cwd, config.pathRules ?? []);
+  const incognito = isIncognito(instanceId);
+  if (paths.capture && paths.context && !incognito) {
+    return { capture: true, context: true };
+  }
+
+  const reasons: string[] = [];
+  if (incognito) reasons.push("incognito");
+  else if (!paths.capture) reasons.push(`capture off by path rule "${paths.captureRule?.path}"`);
+  if (!paths.context) reasons.push(`context off by path rule "${paths.contextRule?.path}"`);
+  return {
+    capture: paths.capture && !incognito,
+    context: paths.context,
+    incognito: incognito || undefined,
+    reason: reasons.join(", "),
+  };
+}
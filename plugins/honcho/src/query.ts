@@ -0,0 +1,429 @@
+/**
+ * Search query builder
+ *
+ * Turns a prompt into the semantic search query sent with session.context()
+ * on each prompt. Candidate terms are pulled out of the prompt and ranked by
+ * kind: error signatures first, then paths, code identifiers and package
+ * names, then quoted text, then words the repository itself uses (its
+ * tracked file names and recent commit messages), then any other content
+ * word. The best few make the query:
+ *
+ *   "why does handleSessionStart throw TypeError: session.context is not a function?"
+ *     → "TypeError: session.context is not a function handleSessionStart throw"
+ *   "let's refactor the transcript cursor logic, it's hard to follow"
+ *     → "transcript refactor cursor logic hard follow"   ("transcript" is a repo term)
+ *
+ * Follow-ups ("now do the same for the other one") say little on their own,
+ * so the session's previous prompts are passed in too. Their terms are scored
+ * the same way, scaled by a weight that shrinks with each step back, and a
+ * term mentioned again in the current prompt gets a small boost.
+ *
+ * The query leaves the machine, so every prompt is redacted first (see
+ * redact.ts) and the placeholders are dropped: a pasted key must not rank as
+ * an identifier.
+ *
+ * buildSearchQuery() is pure; the vocabulary is loaded separately and cached
+ * per directory until HEAD moves.
+ */
+
+import { getCachedRepoVocabulary, setCachedRepoVocabulary } from "./cache.js";
+import type { RedactionConfig } from "./config.js";
+import { redactText } from "./redact.js";
+import { getHeadCommit, getRecentCommits, getTrackedFiles } from "./git.js";
+
+export type QueryTermKind = "error" | "path" | "identifier" | "package" | "quoted" | "domain" | "word";
+
+export interface QueryTerm {
+  text: string;
+  kind: QueryTermKind;
+  score: number;
+  /** 0 for the current prompt, 1 for the prompt before it, and so on */
+  source: number;
+  /** Offset in that prompt (ties are broken by latest prompt, then earliest mention) */
+  position: number;
+}
+
+/** A previous prompt and how much its terms count, relative to the current prompt's */
+export interface QuerySource {
+  text: string;
+  weight: number;
+}
+
+export interface SearchQuery {
+  query: string;
+  /** Terms that made it into the query, best first */
+  terms: QueryTerm[];
+}
+
+const KIND_SCORES: Record<QueryTermKind, number> = {
+  error: 6,
+  path: 5,
+  identifier: 4,
+  package: 4,
+  quoted: 3,
+  domain: 2,
+  word: 1,
+};
+
+// Identifiers and paths the repository also uses rank a little higher
+const VOCABULARY_BONUS = 1;
+// Repeated words, and terms that come up in more than one prompt
+const REPEAT_BONUS = 0.25;
+
+const MAX_TERMS = 8;
+const MAX_QUERY_CHARS = 200;
+const REDACTED_PLACEHOLDER = /\[REDACTED:[^\]]*\]/g;
+const MAX_TERM_CHARS = 80;
+const MAX_VOCABULARY_TERMS = 2000;
+const VOCABULARY_COMMITS = 50;
+
+const STOPWORDS = new Set([
+  "the", "and", "for", "that", "this", "with", "from", "have", "are", "was", "were", "been", "being",
+  "has", "had", "does", "did", "will", "would", "could", "should", "can", "may", "might", "must",
+  "need", "want", "like", "just", "also", "more", "some", "what", "when", "where", "which", "who",
+  "how", "why", "all", "each", "every", "both", "few", "most", "other", "into", "over", "such", "only",
+  "same", "than", "very", "your", "make", "take", "come", "give", "look", "think", "know", "see",
+  "then", "them", "they", "there", "these", "those", "their", "here", "about", "after", "before",
+  "again", "still", "because", "while", "until", "without", "within", "please", "thanks", "okay",
+  "sure", "yes", "let", "lets", "get", "got", "use", "used", "using", "way", "thing", "things",
+  "something", "anything", "everything", "nothing", "now", "right", "work", "works", "working",
+  "keep", "keeps", "doing", "done", "going", "try", "trying", "seems", "seem", "actually", "really",
+  "maybe", "onto", "out", "its", "it's", "i'm", "don't", "doesn't", "can't", "isn't",
+  "code", "file", "files", "change", "changes", "update", "fix", "add", "remove", "check", "help",
+  "write", "read", "run", "running", "show", "tell", "explain", "find", "new", "old", "one", "two",
+]);
+
+// Path segments too common to say anything about a repository
+const GENERIC_PATH_TERMS = new Set([
+  "src", "lib", "dist", "build", "index", "main", "test", "tests", "spec", "utils", "util",
+  "readme", "license", "changelog", "json", "yaml", "yml", "toml", "md", "ts", "js", "tsx", "jsx",
+  "py", "go", "rs", "package", "lock", "config", "docs", "scripts", "node", "modules",
+]);
+
+const PATH_EXTENSIONS = new Set([
+  "ts", "tsx", "js", "jsx", "mjs", "cjs", "py", "rs", "go", "rb", "java", "kt", "swift", "c", "h",
+  "cc", "cpp", "hpp", "cs", "php", "sh", "md", "mdx", "json", "jsonl", "yaml", "yml", "toml", "sql",
+  "html", "css", "scss", "vue", "svelte", "lock", "txt", "env", "ini", "cfg", "xml", "proto", "graphql",
+]);
+
+// ============================================
+// Tokens
+// ============================================
+
+/** Split an identifier or file name into lowercase parts: handleSessionStart → handle, session, start */
+export function splitIdentifier(text: string): string[] {
+  return text
+    .replace(/([a-z0-9])([A-Z])/g, "$1 $2")
+    .replace(/([A-Z]+)([A-Z][a-z])/g, "$1 $2")
+    .split(/[^A-Za-z0-9]+/)
+    .map((p) => p.toLowerCase())
+    .filter((p) => p.length >= 3);
+}
+
+/**
+ * Content tokens of free text, for lexical matching: lowercase words and
+ * identifier parts, stopwords dropped, plural and -ing/-ed endings trimmed.
+ */
+export function contentTokens(text: string): string[] {
+  const tokens = new Set<string>();
+  for (const word of text.match(/[A-Za-z][\w$-]*/g) ?? []) {
+    for (const part of [word.toLowerCase(), ...splitIdentifier(word)]) {
+      if (part.length < 3 || STOPWORDS.has(part) || /[^a-z0-9]/.test(part)) continue;
+      tokens.add(stem(part));
+    }
+  }
+  return [...tokens];
+}
+
+function stem(token: string): string {
+  const trimmed = token.replace(/(?:ing|ed|es|s)$/, "");
+  return trimmed.length >= 3 ? trimmed : token;
+}
+
+function inVocabulary(text: string, vocabulary: Set<string>): boolean {
+  if (vocabulary.size === 0) return false;
+  if (vocabulary.has(text.toLowerCase())) return true;
+  return splitIdentifier(text).some((p) => !GENERIC_PATH_TERMS.has(p) && vocabulary.has(p));
+}
+
+// ============================================
+// Candidate extraction
+// ============================================
+
+interface Candidate {
+  text: string;
+  kind: QueryTermKind;
+  start: number;
+  end: number;
+}
+
+const ERROR_PATTERNS: RegExp[] = [
+  // TypeError: x is not a function / ValueError: bad input
+  /\b[A-Z][A-Za-z]*(?:Error|Exception)\b(?::[ \t]*[^\n]{1,80})?/g,
+  /\berror[ \t]+TS\d{4}\b(?::[ \t]*[^\n]{1,60})?/gi,
+  /\bE(?:NOENT|ACCES|PERM|EXIST|CONNREFUSED|CONNRESET|ADDRINUSE|TIMEDOUT|NOTFOUND|PIPE)\b/g,
+  /\bpanicked at [^\n]{1,80}/g,
+  /\b(?:segmentation fault|stack overflow|out of memory|command not found|permission denied)\b/gi,
+];
+
+// Stack frames: JS "at fn (file:line)", Python 'File "path", line N, in fn'
+const JS_FRAME = /^\s*at\s+(?:async\s+)?([\w$.<>]+)\s+\(([^():\s]+)(?::\d+)*\)/gm;
+const PY_FRAME = /File "([^"]+)", line \d+, in (\w+)/g;
+
+const PATH_PATTERN = /(?:^|(?<=[\s"'`(\[<]))((?:~|\.{1,2})?\/?(?:[\w@.-]+\/)*[\w.-]+\.([A-Za-z][A-Za-z0-9]{0,9}))(?::\d+)*/g;
+const DIR_PATTERN = /(?:^|(?<=[\s"'`(\[<]))((?:\.{1,2}\/)?[\w.-]+(?:\/[\w.-]+)+\/?)(?=[\s"'`),.;:\]>]|$)/g;
+
+const PACKAGE_PATTERNS: RegExp[] = [
+  /@[\w-]+\/[\w.-]+/g,
+  /\b(?:npm|pnpm|yarn|bun)\s+(?:i|install|add|remove|uninstall)\s+(?:-[\w-]+\s+)*([@\w./-]+)/g,
+  /\b(?:pip3?|uv\s+pip|poetry|cargo|gem)\s+(?:install|add)\s+(?:-[\w-]+\s+)*([\w.-]+)/g,
+  /\bgo\s+get\s+([\w./-]+)/g,
+  /\bfrom\s+["']([^"'./][^"']*)["']/g,
+  /\brequire\(\s*["']([^"'./][^"']*)["']\s*\)/g,
+];
+
+const IDENTIFIER_PATTERNS: RegExp[] = [
+  /\b[A-Za-z_$][\w$]*(?:\.[A-Za-z_$][\w$]*)+(?=\()/g,       // member calls: session.context(
+  /\b[a-z][a-z0-9]*(?:[A-Z][a-z0-9]*)+\b/g,                 // camelCase
+  /\b[A-Z][a-z0-9]+(?:[A-Z][a-z0-9]*)+\b/g,                 // PascalCase
+  /\b[a-z][a-z0-9]*(?:_[a-z0-9]+)+\b/g,                     // snake_case
+  /\b[A-Z][A-Z0-9]*(?:_[A-Z0-9]+)+\b/g,                     // SCREAMING_CASE
+  /\b[A-Za-z_$][\w$]*(?=\(\))/g,                            // bare calls: drainOutbox()
+];
+
+const KEBAB_PATTERN = /\b[a-z][a-z0-9]*(?:-[a-z0-9]+)+\b/g;
+const CODE_SPAN = /`([^`\n]{1,80})`/g;
+const QUOTED = /"([^"\n]{2,60})"|(?:^|(?<=[\s(]))'([^'\n]{2,60})'(?=[\s.,;:)!?]|$)/g;
+const WORD = /\b[A-Za-z][A-Za-z0-9]{3,}\b/g;
+
+/** Absolute paths keep their last few segments: the part another checkout shares */
+function shortenPath(path: string): string {
+  if (!/^(?:\/|~\/)/.test(path)) return path;
+  const segments = path.split("/").filter(Boolean);
+  return segments.length > 3 ? segments.slice(-3).join("/") : path;
+}
+
+function clip(text: string): string {
+  const trimmed = text.trim().replace(/\s+/g, " ");
+  if (trimmed.length <= MAX_TERM_CHARS) return trimmed;
+  const cut = trimmed.slice(0, MAX_TERM_CHARS);
+  return cut.slice(0, cut.lastIndexOf(" ") > 20 ? cut.lastIndexOf(" ") : MAX_TERM_CHARS);
+}
+
+/**
+ * Collect candidates in priority order. Text claimed by an earlier match
+ * (an error line, a path) is not matched again as identifiers or words.
+ */
+function extractCandidates(prompt: string, vocabulary: Set<string>): Candidate[] {
+  const candidates: Candidate[] = [];
+  const claimed: Array<[number, number]> = [];
+  const isClaimed = (start: number, end: number) => claimed.some(([s, e]) => start < e && end > s);
+
+  const add = (text: string, kind: QueryTermKind, start: number, end: number, claim = true) => {
+    if (isClaimed(start, end)) return;
+    const clipped = clip(text);
+    if (clipped.length < 2) return;
+    candidates.push({ text: clipped, kind, start, end });
+    if (claim) claimed.push([start, end]);
+  };
+
+  const each = (pattern: RegExp, fn: (m: RegExpExecArray) => void) => {
+    for (const m of prompt.matchAll(pattern)) fn(m as RegExpExecArray);
+  };
+
+  // 1. Error signatures and stack frames
+  each(/Traceback \(most recent call last\):?/g, (m) => claimed.push([m.index, m.index + m[0].length]));
+  for (const pattern of ERROR_PATTERNS) {
+    each(pattern, (m) => add(m[0].replace(/[.:;,?!]+$/, ""), "error", m.index, m.index + m[0].length));
+  }
+  each(JS_FRAME, (m) => {
+    const fnStart = m.index + m[0].indexOf(m[1]);
+    add(m[1].replace(/^Object\./, ""), "identifier", fnStart, fnStart + m[1].length);
+    const fileStart = m.index + m[0].lastIndexOf(m[2]);
+    add(shortenPath(m[2]), "path", fileStart, fileStart + m[2].length);
+  });
+  each(PY_FRAME, (m) => {
+    add(shortenPath(m[1]), "path", m.index + 6, m.index + 6 + m[1].length);
+    const fnStart = m.index + m[0].lastIndexOf(m[2]);
+    add(m[2], "identifier", fnStart, fnStart + m[2].length);
+  });
+
+  // 2. Paths (URLs are skipped) and packages
+  each(/\bhttps?:\/\/\S+/g, (m) => claimed.push([m.index, m.index + m[0].length]));
+  each(PATH_PATTERN, (m) => {
+    const ext = m[2].toLowerCase();
+    if (!PATH_EXTENSIONS.has(ext) && !m[1].includes("/")) return;
+    add(shortenPath(m[1]), "path", m.index, m.index + m[0].length);
+  });
+  each(DIR_PATTERN, (m) => {
+    // a/b on its own is often prose ("and/or", "read/write"); keep it if the repo knows it
+    const segments = m[1].split("/").filter(Boolean);
+    if (segments.length < 3 && !m[1].startsWith(".") && !inVocabulary(m[1], vocabulary)) return;
+    add(shortenPath(m[1]), "path", m.index, m.index + m[1].length);
+  });
+  for (const pattern of PACKAGE_PATTERNS) {
+    each(pattern, (m) => {
+      const name = m[1] ?? m[0];
+      const start = m.index + m[0].lastIndexOf(name);
+      add(name, "package", start, start + name.length);
+    });
+  }
+
+  // 3. Code: backticked spans, then identifier shapes
+  each(CODE_SPAN, (m) => {
+    const code = m[1].trim().replace(/\(\)$/, "");
+    const kind = /^[\w$.]+$/.test(code) ? "identifier" : "quoted";
+    add(code, kind, m.index, m.index + m[0].length);
+  });
+  for (const pattern of IDENTIFIER_PATTERNS) {
+    each(pattern, (m) => add(m[0], "identifier", m.index, m.index + m[0].length));
+  }
+  each(KEBAB_PATTERN, (m) => {
+    // "user-prompt" is an identifier if the repo has it; "built-in" is just prose
+    if (vocabulary.has(m[0])) {
+      add(m[0], "identifier", m.index, m.index + m[0].length);
+    }
+  });
+
+  // 4. Quoted text
+  each(QUOTED, (m) => {
+    const text = m[1] ?? m[2];
+    add(text, "quoted", m.index, m.index + m[0].length);
+  });
+
+  // 5. Remaining content words
+  each(WORD, (m) => {
+    const word = m[0].toLowerCase();
+    if (STOPWORDS.has(word)) return;
+    add(word, vocabulary.has(word) ? "domain" : "word", m.index, m.index + m[0].length, false);
+  });
+
+  return candidates;
+}
+
+// ============================================
+// Ranking
+// ============================================
+
+/**
+ * Build the search query for a prompt. `vocabulary` holds lowercase terms
+ * from the repository (see loadRepoVocabulary); an empty set just means no
+ * domain-term boost. `recent` holds the session's previous prompts, most
+ * recent first, with their weights. Falls back to the start of the prompt
+ * when nothing looks like a search term.
+ */
+export function buildSearchQuery(
+  prompt: string,
+  vocabulary: Set<string> = new Set(),
+  recent: QuerySource[] = [],
+  redaction?: RedactionConfig
+): SearchQuery {
+  const scrub = (text: string) => redactText(text, redaction).text.replace(REDACTED_PLACEHOLDER, " ");
+  prompt = scrub(prompt);
+  const sources: QuerySource[] = [
+    { text: prompt, weight: 1 },
+    ...recent.filter((r) => r.weight > 0).map((r) => ({ ...r, text: scrub(r.text) })),
+  ];
+  const scored = new Map<string, QueryTerm>();
+  sources.forEach((source, index) => {
+    const seen = new Set<string>();
+    for (const c of extractCandidates(source.text, vocabulary)) {
+      let score = KIND_SCORES[c.kind];
+      if ((c.kind === "identifier" || c.kind === "path") && inVocabulary(c.text, vocabulary)) {
+        score += VOCABULARY_BONUS;
+      }
+      score *= source.weight;
+      const key = c.text.toLowerCase();
+      const existing = scored.get(key);
+      if (!existing) {
+        scored.set(key, { text: c.text, kind: c.kind, score, source: index, position: c.start });
+      } else if (existing.source !== index) {
+        // Came up in a later prompt too: keep the better score, plus a little
+        if (!seen.has(key)) {
+          if (score > existing.score) {
+            existing.kind = c.kind;
+            existing.score = score;
+          }
+          existing.score += REPEAT_BONUS;
+        }
+      } else if (score > existing.score) {
+        existing.kind = c.kind;
+        existing.score = score;
+      } else if (c.kind === "word" || c.kind === "domain") {
+        // Repeated words count for a little more
+        existing.score += REPEAT_BONUS * source.weight;
+      }
+      seen.add(key);
+    }
+  });
+
+  const ranked = [...scored.values()].sort(
+    (a, b) => b.score - a.score || a.source - b.source || a.position - b.position
+  );
+  const terms: QueryTerm[] = [];
+  let length = 0;
+  for (const term of ranked) {
+    if (terms.length >= MAX_TERMS) break;
+    const lower = term.text.toLowerCase();
+    // Skip terms already contained in a better one ("TypeError" in "TypeError: ...")
+    if (terms.some((t) => t.text.toLowerCase().includes(lower))) continue;
+    if (length + term.text.length + 1 > MAX_QUERY_CHARS) continue;
+    terms.push(term);
+    length += term.text.length + 1;
+  }
+
+  if (terms.length === 0) {
+    return { query: prompt.trim().replace(/\s+/g, " ").slice(0, MAX_QUERY_CHARS), terms: [] };
+  }
+  return { query: terms.map((t) => t.text).join(" "), terms };
+}
+
+// ============================================
+// Repository vocabulary
+// ============================================
+
+/** Lowercase terms a repository uses, most frequent first */
+export function buildRepoVocabulary(files: string[], commitMessages: string[]): string[] {
+  const counts = new Map<string, number>();
+  const count = (term: string) => {
+    if (term.length < 3 || STOPWORDS.has(term) || GENERIC_PATH_TERMS.has(term) || /^\d+$/.test(term)) return;
+    counts.set(term, (counts.get(term) ?? 0) + 1);
+  };
+
+  for (const file of files) {
+    for (const segment of file.split("/")) {
+      const name = segment.replace(/\.[^.]+$/, "");
+      count(name.toLowerCase());
+      for (const part of splitIdentifier(name)) {
+        if (part !== name.toLowerCase()) count(part);
+      }
+    }
+  }
+  for (const message of commitMessages) {
+    for (const word of message.toLowerCase().match(/\b[a-z][a-z0-9-]{3,}\b/g) ?? []) {
+      count(word);
+    }
+  }
+
+  return [...counts.entries()]
+    .sort(([, a], [, b]) => b - a)
+    .slice(0, MAX_VOCABULARY_TERMS)
+    .map(([term]) => term);
+}
+
+/**
+ * Vocabulary of the git repository at `cwd`, rebuilt when HEAD moves.
+ * Empty outside a git repository.
+ */
+export function loadRepoVocabulary(cwd: string): Set<string> {
+  const head = getHeadCommit(cwd);
+  if (!head) return new Set();
+
+  const cached = getCachedRepoVocabulary(cwd, head);
+  if (cached) return new Set(cached);
+
+  const commits = getRecentCommits(cwd, VOCABULARY_COMMITS).map((line) => line.replace(/^\S+\s+/, ""));
+  const terms = buildRepoVocabulary(getTrackedFiles(cwd), commits);
+  setCachedRepoVocabulary(cwd, head, terms);
+  return new Set(terms);
+}
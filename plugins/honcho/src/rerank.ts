@@ -0,0 +1,148 @@
+/**
+ * Conclusion reranking
+ *
+ * Honcho returns a representation: a block of conclusions, one per line,
+ * usually prefixed with a bracketed timestamp. The user-prompt hook used to
+ * inject the first five lines whatever the prompt was about. Here each
+ * conclusion is scored against the current prompt instead:
+ *
+ *   relevance  lexical overlap with the prompt and its search query terms
+ *              (see query.ts), weighted by term kind: an identifier or path
+ *              match counts for more than a shared word
+ *   recency    from the bracketed timestamp, halving every
+ *              `relevance.recencyHalfLifeDays` (undated lines count as half)
+ *   source     this session's search results rank above the peer-wide
+ *              representation cached at session start, which ranks above
+ *              linked workspaces
+ *
+ *   score = relevance × (0.6 + 0.4 × recency) × source weight
+ *
+ * Relevance multiplies everything else, so a conclusion that shares nothing
+ * with the prompt scores 0 and is never injected. Anything below
+ * `relevance.minScore` is dropped.
+ */
+
+import { contentTokens, type SearchQuery } from "./query.js";
+
+export type ConclusionSource = "session" | "global" | "linked";
+
+export interface Conclusion {
+  text: string;
+  source: ConclusionSource;
+  /** Epoch ms from the bracketed prefix, when it parses */
+  timestamp?: number;
+  /** Linked workspace the conclusion came from */
+  workspace?: string;
+}
+
+export interface RankedConclusion extends Conclusion {
+  score: number;
+  relevance: number;
+  recency: number;
+}
+
+export interface RerankOptions {
+  /** Conclusions scoring below this are dropped (0 keeps any that share a term with the prompt) */
+  minScore: number;
+  recencyHalfLifeDays: number;
+  now?: number;
+}
+
+const SOURCE_WEIGHTS: Record<ConclusionSource, number> = {
+  session: 1,
+  global: 0.9,
+  linked: 0.75,
+};
+
+// Matched weight at which relevance reaches 0.5; one identifier match gets there
+const RELEVANCE_SATURATION = 4;
+const UNDATED_RECENCY = 0.5;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// ============================================
+// Parsing
+// ============================================
+
+/** Split a representation into conclusions, dropping headings and list markers */
+export function parseConclusions(representation: unknown, source: ConclusionSource, workspace?: string): Conclusion[] {
+  if (typeof representation !== "string") return [];
+
+  const conclusions: Conclusion[] = [];
+  for (const rawLine of representation.split("\n")) {
+    let line = rawLine.trim();
+    if (!line || line.startsWith("#")) continue;
+    line = line.replace(/^[-*]\s+/, "");
+
+    let timestamp: number | undefined;
+    const prefix = line.match(/^\[([^\]]*)\]\s*/);
+    if (prefix) {
+      const parsed = Date.parse(prefix[1].trim().replace(" ", "T"));
+      if (!Number.isNaN(parsed)) timestamp = parsed;
+      line = line.slice(prefix[0].length).replace(/^[-*]\s+/, "");
+    }
+    if (!line) continue;
+
+    conclusions.push({ text: line, source, timestamp, workspace });
+  }
+  return conclusions;
+}
+
+// ============================================
+// Scoring
+// ============================================
+
+/**
+ * Weighted tokens to match conclusions against: each search term's tokens
+ * at the term's score, and any other word of the prompt at weight 1.
+ */
+function buildQueryWeights(prompt: string, search: SearchQuery): Map<string, number> {
+  const weights = new Map<string, number>();
+  const set = (token: string, weight: number) => {
+    if (weight > (weights.get(token) ?? 0)) weights.set(token, weight);
+  };
+  for (const term of search.terms) {
+    for (const token of contentTokens(term.text)) set(token, term.score);
+  }
+  for (const token of contentTokens(prompt)) set(token, 1);
+  return weights;
+}
+
+function recencyOf(conclusion: Conclusion, halfLifeDays: number, now: number): number {
+  if (conclusion.timestamp === undefined || halfLifeDays <= 0) return UNDATED_RECENCY;
+  const ageDays = Math.max(0, now - conclusion.timestamp) / DAY_MS;
+  return Math.pow(0.5, ageDays / halfLifeDays);
+}
+
+/**
+ * Score conclusions against the prompt, best first. Duplicates (the same
+ * text from more than one source) keep their best-scoring copy.
+ */
+export function rerankConclusions(
+  conclusions: Conclusion[],
+  prompt: string,
+  search: SearchQuery,
+  options: RerankOptions
+): RankedConclusion[] {
+  const weights = buildQueryWeights(prompt, search);
+  const now = options.now ?? Date.now();
+
+  const best = new Map<string, RankedConclusion>();
+  for (const conclusion of conclusions) {
+    let matched = 0;
+    for (const token of contentTokens(conclusion.text)) {
+      matched += weights.get(token) ?? 0;
+    }
+    const relevance = matched / (matched + RELEVANCE_SATURATION);
+    const recency = recencyOf(conclusion, options.recencyHalfLifeDays, now);
+    const score = relevance * (0.6 + 0.4 * recency) * SOURCE_WEIGHTS[conclusion.source];
+    if (score <= 0 || score < options.minScore) continue;
+
+    const key = conclusion.text.toLowerCase();
+    const existing = best.get(key);
+    if (!existing || score > existing.score) {
+      best.set(key, { ...conclusion, score, relevance, recency });
+    }
+  }
+
+  return [...best.values()].sort((a, b) => b.score - a.score || (b.timestamp ?? 0) - (a.timestamp ?? 0));
+}
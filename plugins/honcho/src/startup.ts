@@ -0,0 +1,482 @@
+/**
+ * Session-start planner
+ *
+ * Session start used to wait on each Honcho round trip in turn: the session
+ * and peers, then the context calls, then every linked workspace. The planner
+ * sends all reads in one wave and stops waiting at a deadline
+ * (`contextRefresh.startupDeadlineSeconds`). The ID cache isn't consulted: the
+ * SDK's session() and peer() don't make a request of their own, and its one
+ * workspace get-or-create per client can't be skipped through the public
+ * client. Sections that didn't arrive in time are filled from what the last
+ * session start in this directory showed, marked with their age.
+ *
+ * The same wave also runs ahead of time: Stop and SessionEnd prefetch the
+ * next session's sections (`contextRefresh.prefetch`), so session start can
+ * print them at once and refresh them in the background.
+ */
+
+import { Honcho } from "@honcho-ai/sdk";
+import { join } from "path";
+import type { ContextSection } from "./assembler.js";
+import {
+  getCachedStartupSections,
+  setCachedStartupSections,
+  setCachedUserContext,
+  setCachedClaudeContext,
+  claimStartupPrefetch,
+  getContextCacheKey,
+  type GitState,
+  type GitStateChange,
+  type GitFeatureContext,
+} from "./cache.js";
+import {
+  getContextRefreshConfig,
+  getDialecticConfig,
+  getHonchoClientOptions,
+  getLinkedWorkspaces,
+  getSessionName,
+  type HonchoCLAUDEConfig,
+} from "./config.js";
+import { captureGitState, getRecentCommits, inferFeatureContext, isGitRepo } from "./git.js";
+import { getPolicy } from "./policy.js";
+import { logAsync, logCache, logFlow, logHook } from "./log.js";
+import { verboseApiResult, verboseList } from "./visual.js";
+
+export type WaveResult<T> =
+  | { status: "fulfilled"; value: T }
+  | { status: "rejected"; reason: unknown }
+  | { status: "timeout" };
+
+// ============================================
+// Fetch wave
+// ============================================
+
+/**
+ * Settle every task or stop at the deadline (epoch ms), whichever comes
+ * first. Tasks still running at the deadline report "timeout"; they are not
+ * cancelled, the hook simply exits without them.
+ */
+export async function settleByDeadline<T extends Record<string, Promise<unknown>>>(
+  tasks: T,
+  deadline: number
+): Promise<{ [K in keyof T]: WaveResult<Awaited<T[K]>> }> {
+  const results: Partial<Record<keyof T, WaveResult<unknown>>> = {};
+  const settled = Promise.all(
+    Object.entries(tasks).map(([key, task]) =>
+      task.then(
+        (value) => { results[key as keyof T] = { status: "fulfilled", value }; },
+        (reason) => { results[key as keyof T] = { status: "rejected", reason }; }
+      )
+    )
+  );
+
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  await Promise.race([
+    settled,
+    new Promise<void>((resolve) => { timer = setTimeout(resolve, Math.max(0, deadline - Date.now())); }),
+  ]);
+  clearTimeout(timer);
+
+  for (const key of Object.keys(tasks) as Array<keyof T>) {
+    results[key] ??= { status: "timeout" };
+  }
+  return results as { [K in keyof T]: WaveResult<Awaited<T[K]>> };
+}
+
+// ============================================
+// Memory sections
+// ============================================
+
+/** The fetch each Honcho-backed section comes from, for the cached fallback */
+const SECTION_SOURCES = {
+  profile: "userContext",
+  work: "claudeContext",
+  summary: "summaries",
+  userChat: "userChat",
+  claudeChat: "claudeChat",
+} as const;
+
+export interface DialecticHints {
+  branchContext: string;
+  changeContext: string;
+  featureHint: string;
+}
+
+/** Git details folded into the dialectic questions */
+export function buildDialecticHints(
+  gitState: GitState | null,
+  gitChanges: GitStateChange[],
+  featureContext: GitFeatureContext | null
+): DialecticHints {
+  return {
+    branchContext: gitState ? ` They are currently on git branch '${gitState.branch}'.` : "",
+    changeContext: gitChanges.length > 0 && gitChanges[0].type === "branch_switch"
+      ? ` Note: they just switched branches from '${gitChanges[0].from}' to '${gitChanges[0].to}'.`
+      : "",
+    featureHint: featureContext && featureContext.confidence !== "low"
+      ? ` Current work appears to be: ${featureContext.type} - ${featureContext.description}.`
+      : "",
+  };
+}
+
+function formatRepresentation(rep: any): string {
+  if (typeof rep === "string" && rep.trim()) {
+    return rep;
+  }
+  return "";
+}
+
+function countConclusions(rep: unknown): number {
+  return typeof rep === "string" ? rep.split("\n").filter((l) => l.trim() && !l.startsWith("#")).length : 0;
+}
+
+function chatContent(value: unknown): string | null {
+  // Chat result may be a string or {content: string}
+  return (typeof value === "string" ? value : (value as any)?.content) || null;
+}
+
+export interface MemoryFetchOptions {
+  honcho: Honcho;
+  sessionName: string;
+  hints: DialecticHints;
+  /** Epoch ms after which unfinished fetches are given up */
+  deadline: number;
+  /** Also fill the per-session context cache the user-prompt hook reads */
+  cacheKey?: string;
+}
+
+export interface MemoryFetchResult {
+  /** Honcho-backed sections that arrived in time */
+  sections: ContextSection[];
+  /** Section ids whose fetch failed or missed the deadline */
+  missingIds: string[];
+  successCount: number;
+}
+
+/**
+ * One wave of every Honcho read behind the session-start memory block:
+ * both peers' context, session summaries, the two dialectic questions and
+ * each linked workspace. Nothing here throws; failures end up in missingIds.
+ */
+export async function fetchMemorySections(config: HonchoCLAUDEConfig, options: MemoryFetchOptions): Promise<MemoryFetchResult> {
+  const { honcho, sessionName, deadline, cacheKey } = options;
+  const { branchContext, changeContext, featureHint } = options.hints;
+  const linkedWorkspaces = getLinkedWorkspaces();
+  const dialectic = getDialecticConfig().sessionStart;
+  logAsync("context-fetch", `Starting ${5 + linkedWorkspaces.length} parallel context fetches (deadline ${Math.max(0, deadline - Date.now())}ms)`);
+
+  // Session and peers are built locally once the workspace is known
+  const handles = Promise.all([
+    honcho.session(sessionName),
+    honcho.peer(config.peerName),
+    honcho.peer(config.aiPeer),
+  ]);
+
+  const fetchStart = Date.now();
+  const [core, linked] = await Promise.all([
+    settleByDeadline({
+      // 1. Get user's context (SESSION-SCOPED for relevance)
+      userContext: handles.then(([, userPeer]) => userPeer.context({
+        maxConclusions: 25,
+        includeMostFrequent: true,
+      })),
+      // 2. Get claude's context (self-awareness, also session-scoped)
+      claudeContext: handles.then(([, , aiPeer]) => aiPeer.context({
+        maxConclusions: 15,
+        includeMostFrequent: true,
+      })),
+      // 3. Get session summaries
+      summaries: handles.then(([session]) => session.summaries()),
+      // 4. Dialectic: Ask about user (context-enhanced)
+      userChat: handles.then(([session, userPeer]) => userPeer.chat(
+        `Summarize what you know about ${config.peerName} in 2-3 sentences. Focus on their preferences, current projects, and working style.${branchContext}${changeContext}${featureHint}`,
+        { reasoningLevel: dialectic.reasoningLevel, session: dialectic.scope === "session" ? session : undefined }
+      )),
+      // 5. Dialectic: Ask about claude (self-reflection, context-enhanced)
+      claudeChat: handles.then(([session, , aiPeer]) => aiPeer.chat(
+        `What has ${config.aiPeer} been working on recently?${branchContext}${featureHint} Summarize the AI assistant's recent activities and focus areas relevant to the current work context.`,
+        { reasoningLevel: dialectic.reasoningLevel, session: dialectic.scope === "session" ? session : undefined }
+      )),
+    }, deadline),
+    // 6. Linked workspaces (reads only, writes stay local)
+    settleByDeadline(Object.fromEntries(linkedWorkspaces.map((ws) => [ws, (async () => {
+      const linkedClient = new Honcho({ ...getHonchoClientOptions(config), workspaceId: ws });
+      const linkedPeer = await linkedClient.peer(config.peerName);
+      return linkedPeer.context({ maxConclusions: 10, includeMostFrequent: true });
+    })()])), deadline),
+  ]);
+
+  // Log async results
+  const asyncResults = [
+    { name: "peer.context(user)", success: core.userContext.status === "fulfilled" },
+    { name: "peer.context(claude)", success: core.claudeContext.status === "fulfilled" },
+    { name: "session.summaries", success: core.summaries.status === "fulfilled" },
+    { name: "peer.chat(user)", success: core.userChat.status === "fulfilled" },
+    { name: "peer.chat(claude)", success: core.claudeChat.status === "fulfilled" },
+  ];
+  const successCount = asyncResults.filter(r => r.success).length;
+  const timedOut = [
+    ...Object.entries(core).filter(([, r]) => r.status === "timeout").map(([key]) => key),
+    ...linkedWorkspaces.filter(ws => linked[ws].status === "timeout").map(ws => `linked:${ws}`),
+  ];
+  logAsync("context-fetch", `Completed: ${successCount}/5 succeeded in ${Date.now() - fetchStart}ms${timedOut.length > 0 ? `, timed out: ${timedOut.join(", ")}` : ""}`, asyncResults);
+
+  const sections: ContextSection[] = [];
+
+  // Section 1: User Profile + Conclusions (CONSOLIDATED)
+  // Combines: peerCard and representation
+  if (core.userContext.status === "fulfilled" && core.userContext.value) {
+    const context = core.userContext.value as any;
+    verboseApiResult("peer.context(user) → representation", context.representation);
+    verboseList("peer.context(user) → peerCard", context.peerCard);
+    if (cacheKey) {
+      setCachedUserContext(cacheKey, context); // Cache for user-prompt hook
+      logCache("write", "userContext", `${countConclusions(context.representation)} conclusions`);
+    }
+
+    const userSection: string[] = [];
+    const peerCard = context.peerCard;
+    if (peerCard && peerCard.length > 0) {
+      userSection.push(peerCard.join("\n"));
+    }
+    // Add conclusions (session-scoped, so should be relevant)
+    const repText = formatRepresentation(context.representation);
+    if (repText) {
+      userSection.push(repText);
+    }
+    if (userSection.length > 0) {
+      sections.push({
+        id: "profile",
+        title: `## ${config.peerName}'s Profile`,
+        body: userSection.join("\n\n"),
+        priority: 90,
+        minTokens: 400,
+      });
+    }
+  }
+
+  // Section 2: Recent Work (CONSOLIDATED)
+  // Combines: claude conclusions, session summary, self-reflection
+  if (core.claudeContext.status === "fulfilled" && core.claudeContext.value) {
+    const context = core.claudeContext.value as any;
+    verboseApiResult("peer.context(claude) → representation", context.representation);
+    if (cacheKey) {
+      setCachedClaudeContext(cacheKey, context);
+      logCache("write", "claudeContext", `${countConclusions(context.representation)} conclusions`);
+    }
+
+    const repText = formatRepresentation(context.representation);
+    if (repText) {
+      sections.push({
+        id: "work",
+        title: `## ${config.aiPeer}'s Work History (Self-Context)`,
+        body: repText,
+        priority: 70,
+        minTokens: 200,
+      });
+    }
+  }
+
+  // Session summary - only include SHORT summary (skip Extended History to reduce noise)
+  if (core.summaries.status === "fulfilled" && core.summaries.value) {
+    const shortSummary = (core.summaries.value as any).shortSummary;
+    verboseApiResult("session.summaries() → shortSummary", shortSummary?.content);
+    if (shortSummary?.content) {
+      sections.push({
+        id: "summary",
+        title: "## Recent Session Summary",
+        body: shortSummary.content,
+        priority: 75,
+        minTokens: 150,
+      });
+    }
+  }
+
+  // AI dialectic summaries - always include when available
+  const userChat = core.userChat.status === "fulfilled" ? chatContent(core.userChat.value) : null;
+  if (userChat) {
+    verboseApiResult(`peer.chat(user) → "${config.peerName}"`, userChat);
+    sections.push({ id: "userChat", title: `## AI Summary of ${config.peerName}`, body: userChat, priority: 80 });
+  }
+
+  const claudeChat = core.claudeChat.status === "fulfilled" ? chatContent(core.claudeChat.value) : null;
+  if (claudeChat) {
+    verboseApiResult(`peer.chat(claude) → "${config.aiPeer}"`, claudeChat);
+    sections.push({
+      id: "claudeChat",
+      title: `## AI Self-Reflection (What ${config.aiPeer} Has Been Doing)`,
+      body: claudeChat,
+      priority: 60,
+    });
+  }
+
+  // Linked workspace context
+  for (const ws of linkedWorkspaces) {
+    const result = linked[ws];
+    if (result.status === "fulfilled" && result.value) {
+      const rep = formatRepresentation((result.value as any).representation);
+      if (rep) {
+        sections.push({ id: `linked:${ws}`, title: `## Linked Context (${ws})`, body: rep, priority: 20 });
+      }
+      logAsync("linked-context", `${ws}: loaded`);
+    } else if (result.status === "rejected") {
+      logAsync("linked-context", `${ws}: failed: ${result.reason}`);
+    } else if (result.status === "timeout") {
+      logAsync("linked-context", `${ws}: timed out`);
+    }
+  }
+
+  const missingIds = [
+    ...Object.entries(SECTION_SOURCES).filter(([, key]) => core[key].status !== "fulfilled").map(([id]) => id),
+    ...linkedWorkspaces.filter(ws => linked[ws].status !== "fulfilled").map(ws => `linked:${ws}`),
+  ];
+  return { sections, missingIds, successCount };
+}
+
+// ============================================
+// Cached sections
+// ============================================
+
+export function formatAge(ms: number): string {
+  const minutes = Math.floor(ms / 60000);
+  if (minutes < 1) return "just now";
+  if (minutes < 60) return `${minutes}m ago`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 48) return `${hours}h ago`;
+  return `${Math.floor(hours / 24)}d ago`;
+}
+
+/**
+ * Store the sections that arrived, and return cached copies of the ones whose
+ * fetch failed or ran out of time (`missingIds`), titled with their age. A
+ * fetch that succeeded with nothing to show is not replaced by an old copy.
+ */
+export function fillFromStartupCache(
+  cwd: string,
+  workspace: string,
+  fresh: ContextSection[],
+  missingIds: string[]
+): ContextSection[] {
+  setCachedStartupSections(cwd, workspace, fresh.map((s) => ({
+    id: s.id,
+    title: s.title,
+    body: s.body,
+    priority: s.priority,
+    minTokens: s.minTokens,
+  })));
+
+  const cached = getCachedStartupSections(cwd, workspace);
+  const stale: ContextSection[] = [];
+  for (const id of missingIds) {
+    const section = cached[id];
+    if (!section) continue;
+    stale.push({
+      id,
+      title: `${section.title} (cached, ${formatAge(Date.now() - section.fetchedAt)})`,
+      body: section.body,
+      priority: section.priority,
+      minTokens: section.minTokens,
+    });
+  }
+  return stale;
+}
+
+// ============================================
+// Prefetch
+// ============================================
+
+export interface PrefetchInput {
+  cwd: string;
+  session_id?: string;
+  /** Hook that asked for the prefetch */
+  source: string;
+}
+
+// Not a Claude Code hook: the entry point spawned for detached prefetches
+const PREFETCH_ENTRY = join(import.meta.dir, "..", "hooks", "prefetch.ts");
+
+// Nothing waits on a prefetch, so it gets far longer than session start
+const PREFETCH_DEADLINE_MS = 25000;
+
+/** Set the session's observation flags (session start does this for every session) */
+export async function configureSessionPeers(honcho: Honcho, config: HonchoCLAUDEConfig, sessionName: string): Promise<void> {
+  const [session, userPeer, aiPeer] = await Promise.all([
+    honcho.session(sessionName),
+    honcho.peer(config.peerName),
+    honcho.peer(config.aiPeer),
+  ]);
+  await Promise.all([
+    session.setPeerConfiguration(userPeer, { observeMe: true, observeOthers: false }),
+    session.setPeerConfiguration(aiPeer, { observeMe: false, observeOthers: true }),
+  ]);
+}
+
+/**
+ * Fetch the session-start sections for a directory and store them as the
+ * bundle the next session start prints. When called for session start's
+ * background refresh, also sets the new session's peer configuration.
+ */
+export async function runPrefetch(config: HonchoCLAUDEConfig, input: PrefetchInput): Promise<void> {
+  const honcho = new Honcho(getHonchoClientOptions(config));
+  const sessionName = getSessionName(input.cwd, input.session_id);
+
+  const gitState = captureGitState(input.cwd);
+  const featureContext = gitState ? inferFeatureContext(gitState, isGitRepo(input.cwd) ? getRecentCommits(input.cwd, 5) : []) : null;
+
+  const [{ sections, missingIds }] = await Promise.all([
+    fetchMemorySections(config, {
+      honcho,
+      sessionName,
+      hints: buildDialecticHints(gitState, [], featureContext),
+      deadline: Date.now() + PREFETCH_DEADLINE_MS,
+      // A session that has ended won't read its user-prompt cache again
+      cacheKey: input.session_id && input.source !== "session-end" ? getContextCacheKey(sessionName, input.session_id) : undefined,
+    }),
+    input.source === "session-start"
+      ? configureSessionPeers(honcho, config, sessionName).catch((e) => logHook("prefetch", `Set peers failed: ${e}`))
+      : undefined,
+  ]);
+
+  setCachedStartupSections(input.cwd, config.workspace, sections);
+  logFlow("prefetch", `${input.source}: stored ${sections.length} sections${missingIds.length > 0 ? `, missing ${missingIds.join(", ")}` : ""}`);
+}
+
+/** Run a prefetch in a background process that outlives the calling hook */
+export function spawnPrefetch(input: PrefetchInput): void {
+  try {
+    const child = Bun.spawn([process.execPath, PREFETCH_ENTRY, JSON.stringify(input)], {
+      stdio: ["ignore", "ignore", "ignore"],
+      detached: true,
+      env: process.env,
+    });
+    child.unref();
+  } catch (error) {
+    logHook("prefetch", `Spawn failed: ${error}`);
+  }
+}
+
+/**
+ * Prefetch the next session start for a directory from Stop or SessionEnd,
+ * per `contextRefresh.prefetch`: "detached" (default) hands it to a
+ * background process so the hook exits at once, "inline" waits for it, "off"
+ * does nothing. Skipped if a prefetch started within `minIntervalSeconds`.
+ */
+export async function requestPrefetch(
+  config: HonchoCLAUDEConfig,
+  input: PrefetchInput,
+  minIntervalSeconds: number
+): Promise<void> {
+  const mode = getContextRefreshConfig().prefetch;
+  if (mode === "off" || !getPolicy(input.cwd, config, input.session_id).context) return;
+  if (!claimStartupPrefetch(input.cwd, config.workspace, minIntervalSeconds * 1000)) {
+    logFlow("prefetch", `${input.source}: skipped, prefetched within ${minIntervalSeconds}s`);
+    return;
+  }
+
+  if (mode === "inline") {
+    await runPrefetch(config, input);
+  } else {
+    spawnPrefetch(input);
+    logFlow("prefetch", `${input.source}: started in background`);
+  }
+}
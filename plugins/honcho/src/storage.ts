@@ -0,0 +1,258 @@
+/**
+ * Safe storage for ~/.honcho state files
+ *
+ * Hooks from several Claude Code sessions run at the same time and all
+ * read-modify-write the same files. This module gives them:
+ *
+ * - Lockfiles (`<file>.lock`, created exclusively) around read-modify-write
+ * - Atomic writes: content goes to a temp file that is renamed over the target
+ * - Corruption recovery: JSON files keep a `.bak` of the last good version,
+ *   which loaders fall back to when the main file doesn't parse
+ *
+ * Everything here is synchronous, like the cache/config code that uses it.
+ */
+
+import { dirname } from "path";
+import {
+  existsSync,
+  readFileSync,
+  appendFileSync,
+  mkdirSync,
+  openSync,
+  closeSync,
+  writeSync,
+  fsyncSync,
+  renameSync,
+  unlinkSync,
+  statSync,
+  copyFileSync,
+} from "fs";
+
+// A lock older than this is assumed to belong to a killed hook
+const STALE_LOCK_MS = 10_000;
+// Give up waiting after this long: withFileLock proceeds unlocked rather than
+// stall a hook, tryWithFileLock skips
+const LOCK_TIMEOUT_MS = 2_000;
+const LOCK_RETRY_MS = 15;
+
+// Locks held by this process (path -> depth), so nested updates don't deadlock
+const heldLocks = new Map<string, number>();
+
+function ensureDir(path: string): void {
+  const dir = dirname(path);
+  if (!existsSync(dir)) {
+    mkdirSync(dir, { recursive: true });
+  }
+}
+
+function sleepSync(ms: number): void {
+  Atomics.wait(new Int32Array(new SharedArrayBuffer(4)), 0, 0, ms);
+}
+
+// ============================================
+// Locking
+// ============================================
+
+function acquireLock(lockPath: string): boolean {
+  const deadline = Date.now() + LOCK_TIMEOUT_MS;
+  while (true) {
+    try {
+      const fd = openSync(lockPath, "wx");
+      writeSync(fd, `${process.pid} ${new Date().toISOString()}`);
+      closeSync(fd);
+      return true;
+    } catch (error: any) {
+      if (error?.code !== "EEXIST") return false;
+    }
+
+    try {
+      if (Date.now() - statSync(lockPath).mtimeMs > STALE_LOCK_MS) {
+        unlinkSync(lockPath);
+        continue;
+      }
+    } catch {
+      // Lock was released between openSync and statSync - retry immediately
+      continue;
+    }
+
+    if (Date.now() > deadline) return false;
+    sleepSync(LOCK_RETRY_MS + Math.random() * LOCK_RETRY_MS);
+  }
+}
+
+/**
+ * Run `fn` while holding the lockfile for `path`. Re-entrant within a process.
+ * If the lock can't be taken within LOCK_TIMEOUT_MS, `fn` runs anyway:
+ * a rare lost update is better than a hook that never returns.
+ */
+export function withFileLock<T>(path: string, fn: () => T): T {
+  return runLocked(path, fn, false) as T;
+}
+
+/**
+ * Like withFileLock, but returns null without running `fn` when the lock
+ * can't be taken, for callers where running unlocked would be worse than
+ * not running at all.
+ */
+export function tryWithFileLock<T>(path: string, fn: () => T): T | null {
+  return runLocked(path, fn, true);
+}
+
+function runLocked<T>(path: string, fn: () => T, required: boolean): T | null {
+  const depth = heldLocks.get(path) ?? 0;
+  if (depth > 0) {
+    heldLocks.set(path, depth + 1);
+    try {
+      return fn();
+    } finally {
+      heldLocks.set(path, depth);
+    }
+  }
+
+  ensureDir(path);
+  const lockPath = `${path}.lock`;
+  const locked = acquireLock(lockPath);
+  if (!locked && required) return null;
+  heldLocks.set(path, 1);
+  try {
+    return fn();
+  } finally {
+    heldLocks.delete(path);
+    if (locked) {
+      try {
+        unlinkSync(lockPath);
+      } catch {
+        // Already removed (e.g. judged stale by another process)
+      }
+    }
+  }
+}
+
+// ============================================
+// Atomic writes
+// ============================================
+
+/**
+ * Write a file via temp file + rename, so readers never see a partial write.
+ * With `backup`, the current file is first copied to `<file>.bak`.
+ */
+export function writeFileAtomic(path: string, content: string, options?: { backup?: boolean }): void {
+  ensureDir(path);
+  if (options?.backup && existsSync(path)) {
+    try {
+      copyFileSync(path, `${path}.bak`);
+    } catch {
+      // A missing backup only matters if the next write is also torn
+    }
+  }
+
+  const tempPath = `${path}.${process.pid}.${Math.random().toString(36).slice(2, 8)}.tmp`;
+  try {
+    const fd = openSync(tempPath, "w");
+    try {
+      writeSync(fd, content);
+      fsyncSync(fd);
+    } finally {
+      closeSync(fd);
+    }
+    renameSync(tempPath, path);
+  } catch (error) {
+    try {
+      unlinkSync(tempPath);
+    } catch {
+      // Temp file was never created
+    }
+    throw error;
+  }
+}
+
+/** Append a line-oriented record under the file's lock */
+export function appendFileLocked(path: string, content: string): void {
+  withFileLock(path, () => {
+    ensureDir(path);
+    appendFileSync(path, content);
+  });
+}
+
+// ============================================
+// JSON files
+// ============================================
+
+function parseJsonFile(path: string): { ok: true; value: any } | { ok: false } {
+  try {
+    return { ok: true, value: JSON.parse(readFileSync(path, "utf-8")) };
+  } catch {
+    return { ok: false };
+  }
+}
+
+/**
+ * Read a JSON file. If it is missing, returns `fallback`; if it is corrupt,
+ * recovers from `<file>.bak` when that parses, else returns `fallback`.
+ */
+export function readJsonFile<T>(path: string, fallback: T): T {
+  if (!existsSync(path)) {
+    return fallback;
+  }
+  const main = parseJsonFile(path);
+  if (main.ok) return main.value as T;
+
+  const bakPath = `${path}.bak`;
+  if (existsSync(bakPath)) {
+    const bak = parseJsonFile(bakPath);
+    if (bak.ok) return bak.value as T;
+  }
+  return fallback;
+}
+
+/**
+ * Write a JSON file atomically. The previous version is kept as `.bak`,
+ * but only if it is itself valid - never back up a corrupt file over a good one.
+ */
+export function writeJsonFile(path: string, data: unknown, options?: { pretty?: boolean }): void {
+  const content = options?.pretty === false ? JSON.stringify(data) : JSON.stringify(data, null, 2);
+  const backup = existsSync(path) && parseJsonFile(path).ok;
+  writeFileAtomic(path, content, { backup });
+}
+
+/**
+ * Locked read-modify-write of a JSON file. `mutate` may change the value in
+ * place or return a replacement. Returns the value that was written.
+ */
+export function updateJsonFile<T>(
+  path: string,
+  fallback: T,
+  mutate: (data: T) => T | void,
+  options?: { pretty?: boolean }
+): T {
+  return withFileLock(path, () => {
+    const current = readJsonFile(path, fallback);
+    const next = mutate(current) ?? current;
+    writeJsonFile(path, next, options);
+    return next;
+  });
+}
+
+// ============================================
+// Text files
+// ============================================
+
+export function readTextFile(path: string): string {
+  if (!existsSync(path)) {
+    return "";
+  }
+  try {
+    return readFileSync(path, "utf-8");
+  } catch {
+    return "";
+  }
+}
+
+/** Locked read-modify-write of a text file */
+export function updateTextFile(path: string, mutate: (content: string) => string): string {
+  return withFileLock(path, () => {
+    const next = mutate(readTextFile(path));
+    writeFileAtomic(path, next);
+    return next;
+  });
+}
@@ -0,0 +1,162 @@
+/**
+ * Upload limits and local summarization
+ *
+ * Applies `messageUpload` to every message before it is queued:
+ * `maxUserTokens` / `maxAssistantTokens` truncate, and `summarizeAssistant`
+ * replaces long assistant responses with an extractive summary (key
+ * sentences, files touched, decisions) built locally - no API call. The
+ * result says what was done so it can be recorded in message metadata.
+ */
+
+import type { MessageUploadConfig } from "./config.js";
+import { estimateTokens, truncateToTokens } from "./tokenizer.js";
+
+export type UploadRole = "user" | "assistant";
+
+export interface UploadTruncation {
+  /** What was applied, in order */
+  applied: Array<"summary" | "truncate">;
+  original_tokens: number;
+  original_chars: number;
+  tokens: number;
+  max_tokens?: number;
+}
+
+export interface PreparedUpload {
+  content: string;
+  /** Set when the content differs from the original */
+  truncation?: UploadTruncation;
+}
+
+// Responses shorter than this are uploaded verbatim even with summarizeAssistant
+const MIN_SUMMARY_TOKENS = 120;
+const MAX_KEY_SENTENCES = 5;
+const MAX_FILES = 10;
+const MAX_DECISIONS = 3;
+
+// ============================================
+// Extractive summary
+// ============================================
+
+const FILE_PATTERN =
+  /(?:^|[\s`'"(])((?:[\w.-]+\/)*[\w-]+(?:\.[\w-]+)*\.(?:tsx?|jsx?|mjs|cjs|json|jsonc|md|py|go|rs|rb|java|kt|swift|c|cc|cpp|h|hpp|cs|php|sh|ya?ml|toml|sql|css|scss|html|vue|svelte))\b/g;
+
+const HAS_FILE = new RegExp(FILE_PATTERN.source);
+
+const DECISION_PATTERN =
+  /\b(decided|chose|going with|instead of|rather than|we'll|we will|I'll use|switched to|opted|the fix is|the solution is|should use|recommend)\b/i;
+
+const KEY_PATTERN =
+  /\b(because|root cause|the issue|the problem|fixed|resolved|implemented|added|changed|removed|refactored|updated|now|result|therefore|so that|note that|important)\b/i;
+
+const ANNOUNCEMENT_PATTERN =
+  /^(I'll|Let me|I'm going to|I will|Now I'll|First,? I'll)\s+(run|use|execute|check|read|look at|search|edit|write|create)/i;
+
+function splitSentences(text: string): string[] {
+  return text
+    .split(/\n{2,}|(?<=[.!?])\s+(?=[A-Z`"'(\[])|\n(?=\s*(?:[-*•]|\d+\.)\s)/)
+    .map((s) => s.replace(/^\s*(?:[-*•]|\d+\.)\s+/, "").replace(/\s+/g, " ").trim())
+    .filter((s) => s.length >= 12 && !s.startsWith("#"));
+}
+
+function scoreSentence(sentence: string, index: number, total: number): number {
+  let score = 0;
+  if (KEY_PATTERN.test(sentence)) score += 2;
+  if (DECISION_PATTERN.test(sentence)) score += 2;
+  if (/`[^`]+`/.test(sentence) || HAS_FILE.test(sentence)) score += 1;
+  // Openings set up the answer, closings usually state the outcome
+  if (index === 0) score += 1;
+  if (index >= total - 2) score += 1;
+  if (ANNOUNCEMENT_PATTERN.test(sentence)) score -= 3;
+  if (sentence.length < 30) score -= 1;
+  if (sentence.length > 300) score -= 1;
+  return score;
+}
+
+function extractFiles(text: string): string[] {
+  const files = new Set<string>();
+  for (const match of text.matchAll(FILE_PATTERN)) {
+    files.add(match[1]);
+    if (files.size >= MAX_FILES) break;
+  }
+  return [...files];
+}
+
+/**
+ * Build an extractive summary: the highest-scoring sentences in their
+ * original order, plus files mentioned and decisions stated.
+ */
+export function summarizeText(text: string): string {
+  // Code blocks are reproduced elsewhere (tool calls); keep only a count
+  const codeBlocks = text.match(/```[\s\S]*?```/g) ?? [];
+  const prose = text.replace(/```[\s\S]*?```/g, "\n\n");
+  const sentences = splitSentences(prose);
+
+  const ranked = sentences
+    .map((sentence, index) => ({ sentence, index, score: scoreSentence(sentence, index, sentences.length) }))
+    .filter((s) => s.score > 0)
+    .sort((a, b) => b.score - a.score || a.index - b.index)
+    .slice(0, MAX_KEY_SENTENCES);
+  const key = ranked.sort((a, b) => a.index - b.index).map((s) => s.sentence);
+  const asSentence = (s: string) => (/[.!?:]$/.test(s) ? s : `${s}.`);
+
+  const decisions = sentences
+    .filter((s) => DECISION_PATTERN.test(s) && !key.includes(s))
+    .slice(0, MAX_DECISIONS);
+  const files = extractFiles(text);
+
+  const lead = key.length > 0 ? key : sentences.slice(0, 2);
+  const lines: string[] = [`[Summary] ${lead.map(asSentence).join(" ")}`];
+  if (decisions.length > 0) {
+    lines.push(`Decisions:\n${decisions.map((d) => `- ${d}`).join("\n")}`);
+  }
+  if (files.length > 0) {
+    lines.push(`Files: ${files.join(", ")}`);
+  }
+  if (codeBlocks.length > 0) {
+    lines.push(`(${codeBlocks.length} code block${codeBlocks.length === 1 ? "" : "s"} omitted)`);
+  }
+  return lines.join("\n");
+}
+
+// ============================================
+// Upload limits
+// ============================================
+
+/**
+ * Apply messageUpload settings to one message. Assistant text is summarized
+ * first (if enabled), then either role is truncated to its token limit.
+ */
+export function prepareUpload(content: string, role: UploadRole, upload: MessageUploadConfig): PreparedUpload {
+  const originalTokens = estimateTokens(content);
+  const applied: UploadTruncation["applied"] = [];
+  let result = content;
+
+  if (role === "assistant" && upload.summarizeAssistant && originalTokens >= MIN_SUMMARY_TOKENS) {
+    const summary = summarizeText(result);
+    if (summary.length < result.length) {
+      result = summary;
+      applied.push("summary");
+    }
+  }
+
+  const maxTokens = role === "user" ? upload.maxUserTokens : upload.maxAssistantTokens;
+  if (maxTokens && maxTokens > 0 && estimateTokens(result) > maxTokens) {
+    result = truncateToTokens(result, maxTokens);
+    applied.push("truncate");
+  }
+
+  if (applied.length === 0) {
+    return { content };
+  }
+  return {
+    content: result,
+    truncation: {
+      applied,
+      original_tokens: originalTokens,
+      original_chars: content.length,
+      tokens: estimateTokens(result),
+      max_tokens: maxTokens || undefined,
+    },
+  };
+}
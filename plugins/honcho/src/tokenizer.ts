@@ -0,0 +1,193 @@
+/**
+ * Token estimation
+ *
+ * Everything that speaks in tokens (messageUpload limits, message chunking,
+ * context budgets) goes through `estimateTokens` / `truncateToTokens` here,
+ * so one setting decides how text is measured.
+ *
+ * Two tokenizers are built in, both offline:
+ *
+ * - `bpe` (default): splits text with the same pre-tokenizer regex as
+ *   cl100k-style BPE vocabularies, then scores each piece the way BPE merges
+ *   tend to come out - short words are one token, long and camelCase words
+ *   split into subwords, digits go in groups of three, CJK is roughly a token
+ *   per character. Much closer than chars/4 for code, JSON and non-Latin text.
+ * - `chars`: the old `chars / 4` heuristic.
+ *
+ * Others can be plugged in with `registerTokenizer()` and selected with the
+ * `tokenizer` config field. A tokenizer that throws falls back to `chars`.
+ */
+
+import { loadConfig } from "./config.js";
+
+export interface Tokenizer {
+  name: string;
+  /** Number of tokens in `text` */
+  count(text: string): number;
+  /** Length in characters of the longest prefix of `text` that fits in `maxTokens` */
+  prefixLength(text: string, maxTokens: number): number;
+}
+
+export const DEFAULT_TOKENIZER = "bpe";
+
+// ============================================
+// chars / 4 heuristic
+// ============================================
+
+const charsTokenizer: Tokenizer = {
+  name: "chars",
+  count: (text) => Math.ceil(text.length / 4),
+  prefixLength: (text, maxTokens) => Math.min(text.length, Math.max(0, maxTokens) * 4),
+};
+
+// ============================================
+// BPE-style estimator
+// ============================================
+
+// cl100k pre-tokenizer: contractions, words with one leading non-letter,
+// 1-3 digit groups, punctuation runs, newlines, other whitespace
+const PRETOKENIZE =
+  /'(?:[sdmt]|ll|ve|re)|[^\r\n\p{L}\p{N}]?\p{L}+|\p{N}{1,3}| ?[^\s\p{L}\p{N}]+[\r\n]*|\s*[\r\n]+|\s+(?!\S)|\s+/giu;
+
+// Scripts where BPE vocabularies spend about a token per character
+const WIDE_CHAR = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}\p{Script=Thai}]/u;
+// camelCase / PascalCase / ACRONYMWord humps
+const SUBWORD = /[A-Z]{2,}(?=[A-Z][a-z]|\b|$)|[A-Z]?[a-z]+|[A-Z]+|[^A-Za-z]+/g;
+
+function scoreWord(word: string): number {
+  let tokens = 0;
+  for (const part of word.match(SUBWORD) ?? [word]) {
+    if (/^[A-Za-z]+$/.test(part)) {
+      if (part === part.toUpperCase() && part.length > 1) {
+        // Acronyms and SHOUTING merge poorly
+        tokens += Math.ceil(part.length / 3);
+      } else if (part.length <= 7) {
+        tokens += 1;
+      } else {
+        tokens += Math.ceil(part.length / 5);
+      }
+    } else {
+      // Accented Latin, Cyrillic, Greek, ... - multi-byte, fewer merges
+      tokens += Math.ceil(part.length / 2);
+    }
+  }
+  return tokens;
+}
+
+function scorePiece(piece: string): number {
+  const letters = piece.replace(/^[^\p{L}]/u, "");
+  if (letters && /^\p{L}+$/u.test(letters)) {
+    let wide = 0;
+    let rest = "";
+    for (const ch of letters) {
+      if (WIDE_CHAR.test(ch)) wide++;
+      else rest += ch;
+    }
+    return wide + (rest ? scoreWord(rest) : 0) + (letters.length < piece.length && !/^\s/.test(piece) ? 1 : 0);
+  }
+  if (/^\p{N}+$/u.test(piece)) return 1;
+  if (/^[ \t]+$/.test(piece)) return Math.ceil(piece.length / 8);
+  if (/^\s+$/.test(piece)) return 1;
+  // Punctuation and operators: common pairs ("()", "=>", "});") are single tokens
+  return Math.ceil(piece.trim().length / 2) || 1;
+}
+
+// Longest prefix of one piece within `budget`, for pieces too long to keep
+// whole (a CJK run or minified blob with no whitespace is a single piece)
+function piecePrefixLength(piece: string, budget: number): number {
+  const chars = Array.from(piece);
+  let lo = 0;
+  let hi = chars.length - 1;
+  while (lo < hi) {
+    const mid = Math.ceil((lo + hi) / 2);
+    if (scorePiece(chars.slice(0, mid).join("")) <= budget) lo = mid;
+    else hi = mid - 1;
+  }
+  return chars.slice(0, lo).join("").length;
+}
+
+const bpeTokenizer: Tokenizer = {
+  name: "bpe",
+  count(text) {
+    let tokens = 0;
+    for (const match of text.matchAll(PRETOKENIZE)) {
+      tokens += scorePiece(match[0]);
+    }
+    return tokens;
+  },
+  prefixLength(text, maxTokens) {
+    let tokens = 0;
+    let end = 0;
+    for (const match of text.matchAll(PRETOKENIZE)) {
+      const score = scorePiece(match[0]);
+      if (tokens + score > maxTokens) return end + piecePrefixLength(match[0], maxTokens - tokens);
+      tokens += score;
+      end = match.index! + match[0].length;
+    }
+    return text.length;
+  },
+};
+
+// ============================================
+// Registry
+// ============================================
+
+const tokenizers = new Map<string, Tokenizer>([
+  [bpeTokenizer.name, bpeTokenizer],
+  [charsTokenizer.name, charsTokenizer],
+]);
+
+let active: Tokenizer | null = null;
+
+export function registerTokenizer(tokenizer: Tokenizer): void {
+  tokenizers.set(tokenizer.name, tokenizer);
+  if (active?.name === tokenizer.name) active = tokenizer;
+}
+
+export function getTokenizerNames(): string[] {
+  return [...tokenizers.keys()];
+}
+
+/** The tokenizer selected in config (resolved once per process) */
+export function getTokenizer(): Tokenizer {
+  if (!active) {
+    const name = loadConfig()?.tokenizer ?? DEFAULT_TOKENIZER;
+    active = tokenizers.get(name) ?? charsTokenizer;
+  }
+  return active;
+}
+
+/** Override the configured tokenizer for this process (null = back to config) */
+export function setTokenizer(name: string | null): void {
+  active = name ? tokenizers.get(name) ?? charsTokenizer : null;
+}
+
+// ============================================
+// Public helpers
+// ============================================
+
+export function estimateTokens(text: string): number {
+  if (!text) return 0;
+  try {
+    return getTokenizer().count(text);
+  } catch {
+    return charsTokenizer.count(text);
+  }
+}
+
+/** Length in characters of the longest prefix of `text` within `maxTokens` */
+export function tokenPrefixLength(text: string, maxTokens: number): number {
+  try {
+    return getTokenizer().prefixLength(text, maxTokens);
+  } catch {
+    return charsTokenizer.prefixLength(text, maxTokens);
+  }
+}
+
+/** Cut `text` to at most `maxTokens`, marking the cut with "..." */
+export function truncateToTokens(text: string, maxTokens: number): string {
+  if (estimateTokens(text) <= maxTokens) {
+    return text;
+  }
+  return text.slice(0, tokenPrefixLength(text, Math.max(0, maxTokens - estimateTokens("...")))) + "...";
+}
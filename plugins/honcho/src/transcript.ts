@@ -0,0 +1,225 @@
+/**
+ * Incremental transcript reader
+ *
+ * Claude Code appends every turn to a JSONL transcript that can grow to tens
+ * of megabytes. Instead of rereading it on every hook, each consumer keeps a
+ * byte-offset cursor per transcript path (~/.honcho/transcript-cursors.json)
+ * and only parses lines appended since its last read.
+ *
+ * - A partially written last line is left for the next read
+ * - If the file shrank or was replaced (different inode), the cursor resets
+ *   and the file is read from the start
+ * - A consumer with no cursor yet can start near the end of the file
+ *   (`initialTailBytes`) when it only cares about recent entries
+ */
+
+import { homedir } from "os";
+import { join } from "path";
+import { existsSync, mkdirSync, openSync, readSync, closeSync, statSync } from "fs";
+import { readJsonFile, updateJsonFile } from "./storage.js";
+
+const CACHE_DIR = join(homedir(), ".honcho");
+const CURSORS_FILE = join(CACHE_DIR, "transcript-cursors.json");
+
+const MAX_CURSORS = 100;
+const CURSOR_MAX_AGE_MS = 7 * 24 * 60 * 60 * 1000;
+// Reads go through a buffer of this size at a time; the slices are then
+// joined, so one call still holds everything appended since the cursor
+const READ_CHUNK_BYTES = 4 * 1024 * 1024;
+
+function ensureCacheDir(): void {
+  if (!existsSync(CACHE_DIR)) {
+    mkdirSync(CACHE_DIR, { recursive: true });
+  }
+}
+
+// ============================================
+// Entry model
+// ============================================
+
+export interface TranscriptContentBlock {
+  type: string;
+  text?: string;
+  /** tool_use */
+  id?: string;
+  name?: string;
+  input?: any;
+  /** tool_result */
+  tool_use_id?: string;
+  content?: string | Array<{ type: string; text?: string }>;
+  is_error?: boolean;
+}
+
+/** One line of a Claude Code transcript */
+export interface TranscriptEntry {
+  uuid?: string;
+  type?: string;
+  timestamp?: string;
+  message?: {
+    role?: string;
+    content: string | TranscriptContentBlock[];
+  };
+  // Alternative format sometimes seen
+  role?: string;
+  content?: string | TranscriptContentBlock[];
+}
+
+export function getEntryRole(entry: TranscriptEntry): string | undefined {
+  return entry.type || entry.role;
+}
+
+export function getEntryContent(entry: TranscriptEntry): string | TranscriptContentBlock[] | undefined {
+  return entry.message?.content || entry.content;
+}
+
+/** Text blocks of an entry joined with blank lines (tool_use/tool_result blocks skipped) */
+export function getEntryText(entry: TranscriptEntry, separator = "\n\n"): string {
+  const content = getEntryContent(entry);
+  if (!content) return "";
+  if (typeof content === "string") return content;
+  return content
+    .filter((p) => p.type === "text" && p.text)
+    .map((p) => p.text!)
+    .join(separator);
+}
+
+/** Names of the tools an assistant entry invoked */
+export function getEntryToolUses(entry: TranscriptEntry): string[] {
+  const content = getEntryContent(entry);
+  if (!Array.isArray(content)) return [];
+  return content
+    .filter((p) => p.type === "tool_use" && p.name)
+    .map((p) => p.name!);
+}
+
+function parseLines(text: string): TranscriptEntry[] {
+  const entries: TranscriptEntry[] = [];
+  for (const line of text.split("\n")) {
+    if (!line.trim()) continue;
+    try {
+      entries.push(JSON.parse(line));
+    } catch {
+      continue;
+    }
+  }
+  return entries;
+}
+
+// ============================================
+// Cursors
+// ============================================
+
+interface TranscriptCursor {
+  offset: number;
+  ino: number;
+  updatedAt: number;
+}
+
+interface CursorStore {
+  [key: string]: TranscriptCursor;
+}
+
+function cursorKey(consumer: string, path: string): string {
+  return `${consumer}:${path}`;
+}
+
+function saveCursor(key: string, cursor: TranscriptCursor): void {
+  ensureCacheDir();
+  updateJsonFile<CursorStore>(CURSORS_FILE, {}, (store) => {
+    store[key] = cursor;
+    const cutoff = Date.now() - CURSOR_MAX_AGE_MS;
+    const kept = Object.entries(store)
+      .filter(([, c]) => c.updatedAt >= cutoff)
+      .sort(([, a], [, b]) => b.updatedAt - a.updatedAt)
+      .slice(0, MAX_CURSORS);
+    return Object.fromEntries(kept);
+  }, { pretty: false });
+}
+
+// ============================================
+// Reading
+// ============================================
+
+export interface TranscriptReadResult {
+  entries: TranscriptEntry[];
+  /** The cursor was discarded because the file shrank or was replaced */
+  reset: boolean;
+  fromOffset: number;
+  toOffset: number;
+}
+
+/**
+ * Read complete lines in [start, end) of the file. Returns the text and the
+ * offset just past the last newline, so a half-written line is read next time.
+ */
+function readCompleteLines(path: string, start: number, end: number): { text: string; next: number } {
+  if (end <= start) return { text: "", next: start };
+
+  const fd = openSync(path, "r");
+  try {
+    const pieces: Buffer[] = [];
+    let position = start;
+    while (position < end) {
+      const length = Math.min(READ_CHUNK_BYTES, end - position);
+      const buffer = Buffer.alloc(length);
+      const bytesRead = readSync(fd, buffer, 0, length, position);
+      if (bytesRead <= 0) break;
+      pieces.push(bytesRead < length ? buffer.subarray(0, bytesRead) : buffer);
+      position += bytesRead;
+    }
+    const data = Buffer.concat(pieces);
+    const lastNewline = data.lastIndexOf(0x0a);
+    if (lastNewline < 0) return { text: "", next: start };
+    return { text: data.subarray(0, lastNewline + 1).toString("utf-8"), next: start + lastNewline + 1 };
+  } finally {
+    closeSync(fd);
+  }
+}
+
+/**
+ * Parse the entries appended to `path` since `consumer` last read it, and
+ * advance that consumer's cursor. Consumers (e.g. "stop", "session-end")
+ * keep independent cursors over the same file.
+ */
+export function readNewTranscriptEntries(
+  path: string,
+  consumer: string,
+  options?: { initialTailBytes?: number }
+): TranscriptReadResult {
+  const empty: TranscriptReadResult = { entries: [], reset: false, fromOffset: 0, toOffset: 0 };
+  if (!path || !existsSync(path)) return empty;
+
+  let stat;
+  try {
+    stat = statSync(path);
+  } catch {
+    return empty;
+  }
+
+  const key = cursorKey(consumer, path);
+  const cursor = readJsonFile<CursorStore>(CURSORS_FILE, {})[key];
+  let start = 0;
+  let reset = false;
+  let skipPartialFirstLine = false;
+
+  if (cursor) {
+    if (cursor.ino !== stat.ino || cursor.offset > stat.size) {
+      // Rotated, replaced or truncated: start over
+      reset = true;
+    } else {
+      start = cursor.offset;
+    }
+  } else if (options?.initialTailBytes && stat.size > options.initialTailBytes) {
+    start = stat.size - options.initialTailBytes;
+    skipPartialFirstLine = true;
+  }
+
+  let { text, next } = readCompleteLines(path, start, stat.size);
+  if (skipPartialFirstLine) {
+    // Starting mid-file: drop the (probably partial) first line
+    text = text.slice(text.indexOf("\n") + 1);
+  }
+
+  saveCursor(key, { offset: next, ino: stat.ino, updatedAt: Date.now() });
+  return { entries: parseLines(text), reset, fromOffset: start, toOffset: next };
+}
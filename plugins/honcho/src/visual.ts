@@ -88,7 +88,18 @@ export function visCapture(summary: string): void {
  * Output skip as systemMessage (for hooks with no existing stdout)
  */
 export function visSkipMessage(hookName: string, reason: string): void {
-  visMessage("info", hookName, `skipped (${reason})`);
+  console.log(JSON.stringify({ systemMessage: visSkipLine(hookName, reason) }));
+}
+
+export function visSkipLine(hookName: string, reason: string): string {
+  return formatLine("info", hookName, `skipped (${reason})`);
+}
+
+/**
+ * Incognito indicator, shown on every prompt while the session is off the record
+ */
+export function visIncognitoLine(hookName: string): string {
+  return formatLine("warn", hookName, "incognito \u2014 not recording (memory is read-only)");
 }
 
 /**
@@ -0,0 +1,112 @@
+import { afterAll, describe, expect, test } from "bun:test";
+import { mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import {
+  BUILTIN_CAPTURE_RULES,
+  buildHooksMatcher,
+  findUncoveredTools,
+  getCaptureRules,
+  matchCaptureRules,
+  readHooksMatcher,
+  renderSummaryTemplate,
+  validateCaptureRules,
+} from "../src/capture.js";
+import type { CaptureRule, HonchoCLAUDEConfig } from "../src/config.js";
+
+const dir = mkdtempSync(join(tmpdir(), "honcho-capture-"));
+afterAll(() => rmSync(dir, { recursive: true, force: true }));
+
+const config: HonchoCLAUDEConfig = { apiKey: "hch-test", peerName: "alice", aiPeer: "claude", workspace: "ws" };
+
+describe("matchCaptureRules", () => {
+  test("the built-in rules record edits and skip read-only commands", () => {
+    expect(matchCaptureRules("Edit", { file_path: "/a/b.ts" }, BUILTIN_CAPTURE_RULES)).not.toBeNull();
+    expect(matchCaptureRules("Bash", { command: "bun test" }, BUILTIN_CAPTURE_RULES)).not.toBeNull();
+    expect(matchCaptureRules("Bash", { command: "  git status" }, BUILTIN_CAPTURE_RULES)).toBeNull();
+    expect(matchCaptureRules("Read", { file_path: "/a/b.ts" }, BUILTIN_CAPTURE_RULES)).toBeNull();
+  });
+
+  test("the last matching rule wins", () => {
+    const rules = getCaptureRules({
+      ...config,
+      captureRules: [
+        { tool: "Bash", action: "ignore", match: "^npm run " },
+        { tool: "Bash", match: "^npm run build" },
+      ],
+    });
+    expect(matchCaptureRules("Bash", { command: "npm run lint" }, rules)).toBeNull();
+    expect(matchCaptureRules("Bash", { command: "npm run build" }, rules)).toBe(rules[rules.length - 1]);
+  });
+
+  test("tool globs, match and exclude narrow a rule", () => {
+    const rules: CaptureRule[] = [{ tool: "mcp__github__*", exclude: "\"draft\":true" }];
+    expect(matchCaptureRules("mcp__github__create_pr", { title: "x" }, rules)).toBe(rules[0]);
+    expect(matchCaptureRules("mcp__github__create_pr", { draft: true }, rules)).toBeNull();
+    expect(matchCaptureRules("mcp__gitlab__create_mr", {}, rules)).toBeNull();
+  });
+
+  test("an invalid regex never matches", () => {
+    expect(matchCaptureRules("Bash", { command: "make" }, [{ tool: "Bash", match: "(" }])).toBeNull();
+  });
+});
+
+describe("renderSummaryTemplate", () => {
+  test("fills built-ins and nested tool_input fields", () => {
+    const text = renderSummaryTemplate(
+      "{tool} {file} {opts.mode} ({status}){missing}",
+      "Write",
+      { file_path: "/repo/src/app.ts", opts: { mode: "overwrite" } },
+      false
+    );
+    expect(text).toBe("Write app.ts overwrite (failed)");
+  });
+
+  test("cuts long values to 100 characters", () => {
+    const text = renderSummaryTemplate("{command}", "Bash", { command: "x".repeat(300) }, true);
+    expect(text).toHaveLength(100);
+    expect(text.endsWith("...")).toBe(true);
+  });
+});
+
+describe("hooks.json matcher", () => {
+  test("is built from capture rules only, without duplicates", () => {
+    expect(buildHooksMatcher(BUILTIN_CAPTURE_RULES)).toBe("Write|Edit|NotebookEdit|Bash|Task");
+    const rules: CaptureRule[] = [
+      { tool: "Bash" },
+      { tool: "Read", action: "ignore" },
+      { tool: "mcp__github__*" },
+      { tool: "Bash", match: "^make" },
+    ];
+    expect(buildHooksMatcher(rules)).toBe("Bash|mcp__github__.*");
+  });
+
+  test("reports rule tools a matcher would not deliver", () => {
+    const rules: CaptureRule[] = [{ tool: "Bash" }, { tool: "mcp__github__*" }, { tool: "Read", action: "ignore" }];
+    expect(findUncoveredTools("Bash", rules)).toEqual(["mcp__github__*"]);
+    expect(findUncoveredTools(buildHooksMatcher(rules), rules)).toEqual([]);
+    expect(findUncoveredTools("*", rules)).toEqual([]);
+  });
+
+  test("reads the PostToolUse matcher from a hooks.json file", () => {
+    const path = join(dir, "hooks.json");
+    writeFileSync(path, JSON.stringify({ hooks: { PostToolUse: [{ matcher: "Write|Bash", hooks: [] }] } }));
+    expect(readHooksMatcher(path)).toBe("Write|Bash");
+    writeFileSync(path, JSON.stringify({ hooks: {} }));
+    expect(readHooksMatcher(path)).toBeNull();
+  });
+
+  test("the shipped hooks.json matches the built-in rules", () => {
+    expect(readHooksMatcher()).toBe(buildHooksMatcher(BUILTIN_CAPTURE_RULES));
+  });
+});
+
+describe("validateCaptureRules", () => {
+  test("rejects rules without a tool, with an unknown action or a bad regex", () => {
+    expect(validateCaptureRules([{ tool: "Bash", match: "^make" }])).toBeNull();
+    expect(validateCaptureRules({})).toBe("captureRules must be an array");
+    expect(validateCaptureRules([{ match: "x" }])).toContain("captureRules[0]");
+    expect(validateCaptureRules([{ tool: "Bash", action: "skip" }])).toContain(".action");
+    expect(validateCaptureRules([{ tool: "Bash" }, { tool: "Bash", exclude: "[" }])).toContain("captureRules[1].exclude");
+  });
+});
@@ -0,0 +1,29 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { chunkContent } from "../src/cache.js";
+import { estimateTokens, setTokenizer } from "../src/tokenizer.js";
+
+beforeAll(() => setTokenizer("bpe"));
+afterAll(() => setTokenizer(null));
+
+describe("chunkContent", () => {
+  test("hard-splits a CJK run with no whitespace by token count", () => {
+    const content = "漢字仮名交じり文".repeat(2500);
+    const chunks = chunkContent(content);
+    expect(chunks.length).toBeGreaterThan(1);
+    for (const chunk of chunks) {
+      expect(estimateTokens(chunk)).toBeLessThanOrEqual(6000);
+      expect(chunk.length).toBeLessThanOrEqual(24000);
+    }
+    expect(chunks.map((c) => c.replace(/^\[Part \d+\/\d+\] /, "")).join("")).toBe(content);
+  });
+
+  test("keeps labelled chunks of plain text within the character limit", () => {
+    for (const chunk of chunkContent("hello world ".repeat(5000))) {
+      expect(chunk.length).toBeLessThanOrEqual(24000);
+    }
+  });
+
+  test("leaves short content alone", () => {
+    expect(chunkContent("short message")).toEqual(["short message"]);
+  });
+});
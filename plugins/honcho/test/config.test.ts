@@ -0,0 +1,62 @@
+import { afterAll, describe, expect, test } from "bun:test";
+import { mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { applyProjectConfig, findProjectConfig, type HonchoCLAUDEConfig } from "../src/config.js";
+
+const dirs: string[] = [];
+afterAll(() => dirs.forEach((dir) => rmSync(dir, { recursive: true, force: true })));
+
+function projectWith(settings: Record<string, unknown>) {
+  const dir = mkdtempSync(join(tmpdir(), "honcho-project-"));
+  dirs.push(dir);
+  writeFileSync(join(dir, ".honcho.json"), JSON.stringify(settings));
+  return findProjectConfig(dir)!;
+}
+
+const userConfig: HonchoCLAUDEConfig = {
+  apiKey: "hch-test",
+  peerName: "alice",
+  aiPeer: "claude",
+  workspace: "ws",
+  enabled: false,
+  saveMessages: false,
+  messageUpload: { maxUserTokens: 2000 },
+};
+
+describe("project config", () => {
+  test("cannot re-enable capture the user switched off", () => {
+    const project = projectWith({ enabled: true, saveMessages: true });
+    expect(project.refused).toEqual(["enabled", "saveMessages"]);
+
+    const merged = applyProjectConfig(userConfig, project.config);
+    expect(merged.enabled).toBe(false);
+    expect(merged.saveMessages).toBe(false);
+  });
+
+  test("can switch capture off", () => {
+    const project = projectWith({ enabled: false, saveMessages: false });
+    const merged = applyProjectConfig({ ...userConfig, enabled: true, saveMessages: true }, project.config);
+    expect(merged.enabled).toBe(false);
+    expect(merged.saveMessages).toBe(false);
+  });
+
+  test("can only lower upload limits", () => {
+    const project = projectWith({ messageUpload: { maxUserTokens: 0, maxAssistantTokens: 500, summarizeAssistant: false } });
+    expect(project.refused).toEqual(["messageUpload.maxUserTokens", "messageUpload.summarizeAssistant"]);
+
+    const merged = applyProjectConfig(userConfig, project.config);
+    expect(merged.messageUpload).toEqual({ maxUserTokens: 2000, maxAssistantTokens: 500, summarizeAssistant: undefined });
+
+    const higher = projectWith({ messageUpload: { maxUserTokens: 9000 } });
+    expect(applyProjectConfig(userConfig, higher.config).messageUpload?.maxUserTokens).toBe(2000);
+  });
+
+  test("cannot turn redaction off", () => {
+    const project = projectWith({ redaction: { enabled: false, patterns: ["ACME-[0-9]+"] } });
+    expect(project.refused).toEqual(["redaction.enabled"]);
+    const merged = applyProjectConfig({ ...userConfig, redaction: { enabled: true } }, project.config);
+    expect(merged.redaction?.enabled).toBe(true);
+    expect(merged.redaction?.patterns).toEqual(["ACME-[0-9]+"]);
+  });
+});
@@ -0,0 +1,76 @@
+import { describe, expect, test } from "bun:test";
+import { digestToolResponse, digestTranscriptFailures, formatToolFailure } from "../src/digest.js";
+import type { TranscriptEntry } from "../src/transcript.js";
+
+const jestOutput = [
+  "\x1b[31mFAIL\x1b[0m src/cart.test.ts",
+  "  ✕ adds items to the cart (12 ms)",
+  "  ✓ empties the cart (3 ms)",
+  "    expect(received).toBe(expected)",
+  "TypeError: Cannot read properties of undefined (reading 'price')",
+  "Tests: 1 failed, 1 passed",
+].join("\n");
+
+describe("digestToolResponse", () => {
+  test("returns null for a call that succeeded", () => {
+    expect(digestToolResponse("Bash", { command: "ls" }, { stdout: "a\nb", exit_code: 0 }, 5, undefined)).toBeNull();
+  });
+
+  test("picks out the exit code, failing tests and error lines", () => {
+    const digest = digestToolResponse("Bash", { command: "npm test" }, { stdout: jestOutput, exit_code: 1 }, 5, undefined);
+    expect(digest).toEqual({
+      tool: "Bash",
+      target: "npm test",
+      exitCode: 1,
+      failedTests: ["src/cart.test.ts", "adds items to the cart"],
+      errors: ["TypeError: Cannot read properties of undefined (reading 'price')"],
+    });
+  });
+
+  test("keeps at most maxErrorLines error lines", () => {
+    const output = Array.from({ length: 10 }, (_, i) => `error: problem ${i}`).join("\n");
+    const digest = digestToolResponse("Bash", { command: "make" }, { stderr: output, exit_code: 2 }, 3, undefined);
+    expect(digest?.errors).toEqual(["error: problem 0", "error: problem 1", "error: problem 2"]);
+  });
+
+  test("doesn't count a success summary as an error", () => {
+    const output = "src/a.ts(3,1): error TS2304: Cannot find name 'x'.\nFound 0 errors in other files.";
+    const digest = digestToolResponse("Bash", { command: "tsc" }, { stdout: output, exit_code: 2 }, 5, undefined);
+    expect(digest?.errors).toEqual(["src/a.ts(3,1): error TS2304: Cannot find name 'x'."]);
+  });
+
+  test("redacts with the config it is given, project patterns included", () => {
+    const digest = digestToolResponse(
+      "Bash",
+      { command: "deploy" },
+      { stderr: "Error: ticket ACME-12345 rejected", exit_code: 1 },
+      5,
+      { patterns: ["ACME-[0-9]+"] }
+    );
+    expect(digest?.errors.join("\n")).not.toContain("ACME-12345");
+    expect(digest?.errors.join("\n")).toContain("[REDACTED:");
+  });
+});
+
+describe("digestTranscriptFailures", () => {
+  test("matches failed tool results to the tool call that produced them", () => {
+    const entries: TranscriptEntry[] = [
+      { type: "assistant", message: { role: "assistant", content: [{ type: "tool_use", id: "t1", name: "Bash", input: { command: "pytest" } }] } },
+      { type: "user", timestamp: "2026-10-19T10:00:00Z", message: { role: "user", content: [{ type: "tool_result", tool_use_id: "t1", is_error: true, content: "FAILED tests/test_api.py::test_login\nE   AssertionError: 401 != 200" }] } },
+      { type: "assistant", message: { role: "assistant", content: [{ type: "tool_use", id: "t2", name: "Read", input: { file_path: "README.md" } }] } },
+      { type: "user", message: { role: "user", content: [{ type: "tool_result", tool_use_id: "t2", content: "# Title" }] } },
+    ];
+
+    const failures = digestTranscriptFailures(entries, 5, undefined);
+    expect(failures).toHaveLength(1);
+    expect(failures[0]).toMatchObject({ toolUseId: "t1", timestamp: "2026-10-19T10:00:00Z" });
+    expect(failures[0].digest).toMatchObject({ tool: "Bash", target: "pytest", failedTests: ["tests/test_api.py::test_login"] });
+  });
+});
+
+describe("formatToolFailure", () => {
+  test("puts the tool, target and exit code on the first line", () => {
+    expect(formatToolFailure({ tool: "Bash", target: "npm test", exitCode: 1, failedTests: ["adds items"], errors: ["TypeError: x"] }))
+      .toBe("[Tool failure] Bash `npm test` (exit 1)\nFailed tests: adds items\nErrors:\n- TypeError: x");
+  });
+});
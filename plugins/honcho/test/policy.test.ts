@@ -0,0 +1,66 @@
+import { describe, expect, test } from "bun:test";
+import { homedir } from "os";
+import { join } from "path";
+import { clearIncognito, setIncognito } from "../src/cache.js";
+import type { HonchoCLAUDEConfig, PathRule } from "../src/config.js";
+import { getPolicy, matchPathRules } from "../src/policy.js";
+
+const config: HonchoCLAUDEConfig = { apiKey: "hch-test", peerName: "alice", aiPeer: "claude", workspace: "ws" };
+
+describe("matchPathRules", () => {
+  test("allows everything without rules", () => {
+    expect(matchPathRules("/work/app", [])).toEqual({ capture: true, context: true });
+  });
+
+  test("an excluded directory covers everything below it", () => {
+    const rules: PathRule[] = [{ path: "/work/clients/**" }];
+    expect(matchPathRules("/work/clients", rules).capture).toBe(false);
+    expect(matchPathRules("/work/clients/acme/src", rules).context).toBe(false);
+    expect(matchPathRules("/work/other", rules).capture).toBe(true);
+  });
+
+  test("the last matching rule wins, so an include can carve out an exception", () => {
+    const rules: PathRule[] = [
+      { path: "/work/clients/**" },
+      { path: "/work/clients/open-source/**", action: "include" },
+    ];
+    const result = matchPathRules("/work/clients/open-source/lib", rules);
+    expect(result.capture).toBe(true);
+    expect(result.captureRule).toBe(rules[1]);
+    expect(matchPathRules("/work/clients/acme", rules).capture).toBe(false);
+  });
+
+  test("a scoped rule only decides its own scope", () => {
+    const result = matchPathRules("/work/secret", [{ path: "/work/secret", scope: "capture" }]);
+    expect(result).toMatchObject({ capture: false, context: true });
+  });
+
+  test("bare patterns match at any depth and ~ expands to home", () => {
+    expect(matchPathRules("/a/b/secrets-prod/x", [{ path: "secrets-*" }]).capture).toBe(false);
+    expect(matchPathRules(join(homedir(), "private", "notes"), [{ path: "~/private" }]).capture).toBe(false);
+  });
+});
+
+describe("getPolicy", () => {
+  test("turns everything off when the plugin is disabled or unconfigured", () => {
+    expect(getPolicy("/work/app", { ...config, enabled: false })).toMatchObject({ capture: false, context: false, reason: "plugin disabled" });
+    expect(getPolicy("/work/app", null)).toMatchObject({ capture: false, context: false });
+  });
+
+  test("reports which path rule turned a scope off", () => {
+    const policy = getPolicy("/work/clients/acme", { ...config, pathRules: [{ path: "/work/clients/**", scope: "context" }] });
+    expect(policy).toMatchObject({ capture: true, context: false });
+    expect(policy.reason).toContain("/work/clients/**");
+  });
+
+  test("incognito stops capture but keeps context, for that session only", () => {
+    setIncognito("session-a", true, "/work/app");
+    try {
+      expect(getPolicy("/work/app", config, "session-a")).toMatchObject({ capture: false, context: true, incognito: true, reason: "incognito" });
+      expect(getPolicy("/work/app", config, "session-b")).toEqual({ capture: true, context: true });
+    } finally {
+      clearIncognito("session-a");
+    }
+    expect(getPolicy("/work/app", config, "session-a")).toEqual({ capture: true, context: true });
+  });
+});
@@ -0,0 +1,32 @@
+import { describe, expect, test } from "bun:test";
+import { buildSearchQuery, type QuerySource } from "../src/query.js";
+import fixtures from "./fixtures/search-queries.json";
+
+interface QueryFixture {
+  name: string;
+  prompt: string;
+  vocabulary?: string[];
+  recent?: QuerySource[];
+  query: string;
+}
+
+// Golden prompt -> query pairs. When a ranking change moves one, check the
+// new query is still what the search should see before updating the file.
+describe("buildSearchQuery fixtures", () => {
+  for (const fixture of fixtures as QueryFixture[]) {
+    test(fixture.name, () => {
+      const { query } = buildSearchQuery(fixture.prompt, new Set(fixture.vocabulary ?? []), fixture.recent ?? []);
+      expect(query).toBe(fixture.query);
+    });
+  }
+});
+
+describe("buildSearchQuery redaction", () => {
+  test("never puts secrets or placeholders in the query", () => {
+    const secret = "sk-ant-REDACTED";
+    const { query, terms } = buildSearchQuery(`is ${secret} valid`, new Set(), [{ text: `use ${secret}`, weight: 0.5 }]);
+    expect(query).not.toContain("AbCdEf");
+    expect(query).not.toContain("REDACTED");
+    expect(terms.every((t) => !t.text.includes("sk-ant"))).toBe(true);
+  });
+});
@@ -0,0 +1,103 @@
+import { describe, expect, test } from "bun:test";
+import type { SearchQuery } from "../src/query.js";
+import { parseConclusions, rerankConclusions, type Conclusion } from "../src/rerank.js";
+
+const NOW = Date.parse("2026-06-01T00:00:00Z");
+const DAY_MS = 24 * 60 * 60 * 1000;
+const noSearch: SearchQuery = { query: "", terms: [] };
+const options = { minScore: 0, recencyHalfLifeDays: 30, now: NOW };
+
+describe("parseConclusions", () => {
+  test("drops headings and list markers and reads bracketed timestamps", () => {
+    const conclusions = parseConclusions(
+      "# Conclusions\n- [2026-05-01 10:00:00] prefers bun over npm\n* uses vim\n[not a date] likes tea\n\n[2026-05-02]",
+      "global"
+    );
+    expect(conclusions.map((c) => c.text)).toEqual(["prefers bun over npm", "uses vim", "likes tea"]);
+    expect(conclusions[0].timestamp).toBe(Date.parse("2026-05-01T10:00:00"));
+    expect(conclusions[1].timestamp).toBeUndefined();
+    expect(conclusions[2].timestamp).toBeUndefined();
+  });
+
+  test("ignores anything that is not a string", () => {
+    expect(parseConclusions(null, "session")).toEqual([]);
+  });
+});
+
+describe("rerankConclusions", () => {
+  test("a conclusion sharing nothing with the prompt is dropped", () => {
+    const conclusions: Conclusion[] = [
+      { text: "deploys with terraform", source: "session" },
+      { text: "prefers tabs for indentation", source: "session" },
+    ];
+    const ranked = rerankConclusions(conclusions, "fix the terraform plan", noSearch, options);
+    expect(ranked.map((c) => c.text)).toEqual(["deploys with terraform"]);
+  });
+
+  test("conclusions below minScore are cut off", () => {
+    const conclusions: Conclusion[] = [
+      { text: "deploys with terraform modules", source: "session" },
+      { text: "terraform state lives in s3", source: "session" },
+    ];
+    const prompt = "split the terraform modules";
+    const all = rerankConclusions(conclusions, prompt, noSearch, options);
+    expect(all).toHaveLength(2);
+    const cutoff = (all[0].score + all[1].score) / 2;
+    const kept = rerankConclusions(conclusions, prompt, noSearch, { ...options, minScore: cutoff });
+    expect(kept.map((c) => c.text)).toEqual(["deploys with terraform modules"]);
+  });
+
+  test("search terms weigh more than plain prompt words", () => {
+    const search: SearchQuery = {
+      query: "parseConfig",
+      terms: [{ text: "parseConfig", kind: "identifier", score: 4, source: 0, position: 0 }],
+    };
+    const [ranked] = rerankConclusions([{ text: "parseConfig throws on comments", source: "session" }], "why", search, options);
+    const [plain] = rerankConclusions([{ text: "parse throws on comments", source: "session" }], "parse why", noSearch, options);
+    expect(ranked.relevance).toBeGreaterThan(plain.relevance);
+  });
+
+  test("recency halves every half-life and undated conclusions count as half", () => {
+    const conclusions: Conclusion[] = [
+      { text: "terraform fresh", source: "session", timestamp: NOW },
+      { text: "terraform month old", source: "session", timestamp: NOW - 30 * DAY_MS },
+      { text: "terraform undated", source: "session" },
+    ];
+    const ranked = rerankConclusions(conclusions, "terraform", noSearch, options);
+    const recency = Object.fromEntries(ranked.map((c) => [c.text, c.recency]));
+    expect(recency["terraform fresh"]).toBe(1);
+    expect(recency["terraform month old"]).toBeCloseTo(0.5);
+    expect(recency["terraform undated"]).toBe(0.5);
+    expect(ranked[0].text).toBe("terraform fresh");
+  });
+
+  test("source weights rank session over global over linked", () => {
+    const ranked = rerankConclusions(
+      [
+        { text: "terraform in linked", source: "linked", workspace: "other" },
+        { text: "terraform in global", source: "global" },
+        { text: "terraform in session", source: "session" },
+      ],
+      "terraform",
+      noSearch,
+      options
+    );
+    expect(ranked.map((c) => c.source)).toEqual(["session", "global", "linked"]);
+    expect(ranked[1].score / ranked[0].score).toBeCloseTo(0.9);
+    expect(ranked[2].score / ranked[0].score).toBeCloseTo(0.75);
+  });
+
+  test("duplicates keep their best-scoring copy", () => {
+    const ranked = rerankConclusions(
+      [
+        { text: "Uses Terraform", source: "global" },
+        { text: "uses terraform", source: "session" },
+      ],
+      "terraform",
+      noSearch,
+      options
+    );
+    expect(ranked).toHaveLength(1);
+    expect(ranked[0].source).toBe("session");
+  });
+});
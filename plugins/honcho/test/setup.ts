@@ -0,0 +1,16 @@
+/**
+ * Test preload: give the whole run its own home directory, so config,
+ * caches and the outbox live under a temp dir instead of ~/.honcho.
+ */
+
+import { afterAll, mock } from "bun:test";
+import { mkdtempSync, rmSync } from "fs";
+import * as os from "os";
+import { join } from "path";
+
+const home = mkdtempSync(join(os.tmpdir(), "honcho-test-home-"));
+process.env.HOME = home;
+
+mock.module("os", () => ({ ...os, default: { ...os, homedir: () => home }, homedir: () => home }));
+
+afterAll(() => rmSync(home, { recursive: true, force: true }));
@@ -0,0 +1,92 @@
+import { afterAll, describe, expect, test } from "bun:test";
+import { existsSync, mkdtempSync, readdirSync, readFileSync, rmSync, utimesSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import {
+  readJsonFile,
+  tryWithFileLock,
+  updateJsonFile,
+  withFileLock,
+  writeFileAtomic,
+  writeJsonFile,
+} from "../src/storage.js";
+
+const dir = mkdtempSync(join(tmpdir(), "honcho-storage-"));
+afterAll(() => rmSync(dir, { recursive: true, force: true }));
+
+describe("writeFileAtomic", () => {
+  test("replaces the file and leaves no temp files behind", () => {
+    const path = join(dir, "atomic.txt");
+    writeFileAtomic(path, "one");
+    writeFileAtomic(path, "two");
+    expect(readFileSync(path, "utf-8")).toBe("two");
+    expect(readdirSync(dir).filter((name) => name.endsWith(".tmp"))).toEqual([]);
+  });
+
+  test("keeps a .bak of the previous content when asked", () => {
+    const path = join(dir, "backed-up.txt");
+    writeFileAtomic(path, "old");
+    writeFileAtomic(path, "new", { backup: true });
+    expect(readFileSync(`${path}.bak`, "utf-8")).toBe("old");
+  });
+});
+
+describe("JSON files", () => {
+  test("fall back to .bak when the main file is corrupt", () => {
+    const path = join(dir, "state.json");
+    writeJsonFile(path, { version: 1 });
+    writeJsonFile(path, { version: 2 });
+    writeFileSync(path, '{"version": 3');
+    expect(readJsonFile(path, { version: 0 })).toEqual({ version: 1 });
+  });
+
+  test("never back up a corrupt file over a good one", () => {
+    const path = join(dir, "guarded.json");
+    writeJsonFile(path, { good: true });
+    writeJsonFile(path, { good: "still" });
+    writeFileSync(path, "not json");
+    writeJsonFile(path, { good: "again" });
+    expect(JSON.parse(readFileSync(`${path}.bak`, "utf-8"))).toEqual({ good: true });
+  });
+
+  test("return the fallback when missing and unrecoverable", () => {
+    expect(readJsonFile(join(dir, "missing.json"), [])).toEqual([]);
+    const path = join(dir, "broken.json");
+    writeFileSync(path, "{");
+    expect(readJsonFile(path, "fallback")).toBe("fallback");
+  });
+
+  test("updateJsonFile mutates in place or takes a replacement", () => {
+    const path = join(dir, "counter.json");
+    updateJsonFile<{ n: number }>(path, { n: 0 }, (data) => {
+      data.n++;
+    });
+    expect(updateJsonFile<{ n: number }>(path, { n: 0 }, (data) => ({ n: data.n + 10 }))).toEqual({ n: 11 });
+  });
+});
+
+describe("locks", () => {
+  test("are re-entrant and released afterwards", () => {
+    const path = join(dir, "reentrant.json");
+    const value = withFileLock(path, () => withFileLock(path, () => existsSync(`${path}.lock`)));
+    expect(value).toBe(true);
+    expect(existsSync(`${path}.lock`)).toBe(false);
+  });
+
+  test("a lock held elsewhere makes tryWithFileLock skip and withFileLock run anyway", () => {
+    const path = join(dir, "contended.json");
+    writeFileSync(`${path}.lock`, "12345");
+    expect(tryWithFileLock(path, () => "ran")).toBeNull();
+    expect(withFileLock(path, () => "ran")).toBe("ran");
+    // The other holder's lock is theirs to remove
+    expect(existsSync(`${path}.lock`)).toBe(true);
+  });
+
+  test("a stale lock is taken over", () => {
+    const path = join(dir, "stale.json");
+    writeFileSync(`${path}.lock`, "12345");
+    const old = new Date(Date.now() - 60_000);
+    utimesSync(`${path}.lock`, old, old);
+    expect(tryWithFileLock(path, () => "ran")).toBe("ran");
+  });
+});
@@ -0,0 +1,67 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { prepareUpload, summarizeText } from "../src/summarize.js";
+import { estimateTokens, setTokenizer } from "../src/tokenizer.js";
+
+beforeAll(() => setTokenizer("bpe"));
+afterAll(() => setTokenizer(null));
+
+const response = [
+  "The login test was failing because the session cookie expired before the redirect.",
+  "Let me read the config first.",
+  "I changed src/auth/session.ts so the cookie is refreshed on every request.",
+  "We'll use a sliding expiry instead of a fixed one, since users stay logged in for hours.",
+  "```ts\nrefresh(cookie);\n```",
+  "The redirect handler in src/auth/redirect.ts reads the cookie after the refresh, so the order matters.",
+  "Note that the old fixed expiry is still used for API tokens, which don't go through the redirect.",
+  "I also removed the retry loop in the login page because it hid the real error from the logs.",
+  "The fix is now covered by test/auth.test.ts and all tests pass.",
+].join("\n\n");
+
+describe("summarizeText", () => {
+  test("keeps key sentences, decisions and files, and drops code and announcements", () => {
+    const summary = summarizeText(response);
+    expect(summary.startsWith("[Summary] ")).toBe(true);
+    expect(summary).toContain("session cookie expired");
+    expect(summary).toContain("Files: src/auth/session.ts, src/auth/redirect.ts, test/auth.test.ts");
+    expect(summary).toContain("(1 code block omitted)");
+    expect(summary).not.toContain("Let me read the config");
+    expect(summary).not.toContain("refresh(cookie)");
+  });
+});
+
+describe("prepareUpload", () => {
+  test("returns short messages untouched, without truncation metadata", () => {
+    expect(prepareUpload("Thanks, that works.", "assistant", { maxAssistantTokens: 1500, summarizeAssistant: true })).toEqual({
+      content: "Thanks, that works.",
+    });
+  });
+
+  test("records a truncation with the token counts before and after", () => {
+    const prompt = "word ".repeat(500);
+    const { content, truncation } = prepareUpload(prompt, "user", { maxUserTokens: 100 });
+    expect(estimateTokens(content)).toBeLessThanOrEqual(100);
+    expect(truncation).toEqual({
+      applied: ["truncate"],
+      original_tokens: estimateTokens(prompt),
+      original_chars: prompt.length,
+      tokens: estimateTokens(content),
+      max_tokens: 100,
+    });
+  });
+
+  test("summarizes assistant text before truncating it", () => {
+    const { content, truncation } = prepareUpload(response, "assistant", { maxAssistantTokens: 20, summarizeAssistant: true });
+    expect(truncation?.applied).toEqual(["summary", "truncate"]);
+    expect(content.startsWith("[Summary] ")).toBe(true);
+    expect(truncation?.tokens).toBeLessThanOrEqual(20);
+  });
+
+  test("only summarizes assistant messages", () => {
+    expect(prepareUpload(response, "user", { maxUserTokens: 0, summarizeAssistant: true })).toEqual({ content: response });
+  });
+
+  test("0 means no limit", () => {
+    const long = "word ".repeat(5000);
+    expect(prepareUpload(long, "assistant", { maxAssistantTokens: 0 })).toEqual({ content: long });
+  });
+});
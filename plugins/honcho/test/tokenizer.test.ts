@@ -0,0 +1,85 @@
+import { afterEach, describe, expect, test } from "bun:test";
+import {
+  estimateTokens,
+  getTokenizer,
+  registerTokenizer,
+  setTokenizer,
+  tokenPrefixLength,
+  truncateToTokens,
+} from "../src/tokenizer.js";
+
+afterEach(() => setTokenizer(null));
+
+describe("bpe tokenizer", () => {
+  test("counts short words as one token each", () => {
+    setTokenizer("bpe");
+    expect(estimateTokens("the quick brown fox")).toBe(4);
+    expect(estimateTokens("")).toBe(0);
+  });
+
+  test("splits camelCase, acronyms and digit groups", () => {
+    setTokenizer("bpe");
+    expect(estimateTokens("handleUserPromptSubmit")).toBe(4);
+    expect(estimateTokens("HTTPSConnection")).toBe(4);
+    expect(estimateTokens("1234567")).toBe(3);
+  });
+
+  test("counts CJK about a token per character, well above chars / 4", () => {
+    setTokenizer("bpe");
+    expect(estimateTokens("漢字仮名")).toBe(4);
+    expect(estimateTokens("漢字仮名".repeat(100))).toBe(400);
+  });
+
+  test("prefix length stops on a token boundary, inside a long run if it must", () => {
+    setTokenizer("bpe");
+    expect(tokenPrefixLength("hello world again", 2)).toBe("hello world".length);
+    expect(tokenPrefixLength("漢字仮名交じり文", 3)).toBe(3);
+  });
+});
+
+describe("chars tokenizer", () => {
+  test("is chars / 4", () => {
+    setTokenizer("chars");
+    expect(estimateTokens("abcdefghi")).toBe(3);
+    expect(tokenPrefixLength("abcdefghi", 2)).toBe(8);
+  });
+});
+
+describe("registry", () => {
+  test("a registered tokenizer can be selected", () => {
+    registerTokenizer({ name: "words", count: (t) => t.split(/\s+/).filter(Boolean).length, prefixLength: (t) => t.length });
+    setTokenizer("words");
+    expect(getTokenizer().name).toBe("words");
+    expect(estimateTokens("a b c")).toBe(3);
+  });
+
+  test("an unknown name falls back to chars", () => {
+    setTokenizer("no-such-tokenizer");
+    expect(getTokenizer().name).toBe("chars");
+  });
+
+  test("a tokenizer that throws falls back to chars", () => {
+    registerTokenizer({
+      name: "broken",
+      count: () => {
+        throw new Error("boom");
+      },
+      prefixLength: () => {
+        throw new Error("boom");
+      },
+    });
+    setTokenizer("broken");
+    expect(estimateTokens("abcdefgh")).toBe(2);
+    expect(tokenPrefixLength("abcdefgh", 1)).toBe(4);
+  });
+});
+
+describe("truncateToTokens", () => {
+  test("leaves text within the limit alone and marks a cut with ...", () => {
+    setTokenizer("bpe");
+    expect(truncateToTokens("one two", 5)).toBe("one two");
+    const cut = truncateToTokens("one two three four five six", 4);
+    expect(cut).toBe("one two...");
+    expect(estimateTokens(cut)).toBeLessThanOrEqual(4);
+  });
+});
@@ -0,0 +1,75 @@
+import { afterAll, describe, expect, test } from "bun:test";
+import { appendFileSync, mkdtempSync, renameSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { getEntryText, readNewTranscriptEntries } from "../src/transcript.js";
+
+const dir = mkdtempSync(join(tmpdir(), "honcho-transcript-"));
+afterAll(() => rmSync(dir, { recursive: true, force: true }));
+
+let files = 0;
+function transcript(...texts: string[]): string {
+  const path = join(dir, `t${++files}.jsonl`);
+  writeFileSync(path, texts.map(line).join(""));
+  return path;
+}
+
+function line(text: string): string {
+  return JSON.stringify({ type: "user", message: { role: "user", content: text } }) + "\n";
+}
+
+function texts(path: string, consumer = "test", options?: { initialTailBytes?: number }) {
+  return readNewTranscriptEntries(path, consumer, options).entries.map((e) => getEntryText(e));
+}
+
+describe("readNewTranscriptEntries", () => {
+  test("returns only entries appended since the last read", () => {
+    const path = transcript("one", "two");
+    expect(texts(path)).toEqual(["one", "two"]);
+    expect(texts(path)).toEqual([]);
+    appendFileSync(path, line("three"));
+    expect(texts(path)).toEqual(["three"]);
+  });
+
+  test("leaves a half-written last line for the next read", () => {
+    const path = transcript("one");
+    const partial = line("two");
+    appendFileSync(path, partial.slice(0, 10));
+    expect(texts(path)).toEqual(["one"]);
+    appendFileSync(path, partial.slice(10));
+    expect(texts(path)).toEqual(["two"]);
+  });
+
+  test("keeps a separate cursor per consumer", () => {
+    const path = transcript("one");
+    expect(texts(path, "stop")).toEqual(["one"]);
+    expect(texts(path, "session-end")).toEqual(["one"]);
+    expect(texts(path, "stop")).toEqual([]);
+  });
+
+  test("starts over when the file shrinks", () => {
+    const path = transcript("one", "two");
+    texts(path);
+    writeFileSync(path, line("new"));
+    const result = readNewTranscriptEntries(path, "test");
+    expect(result.reset).toBe(true);
+    expect(result.entries.map((e) => getEntryText(e))).toEqual(["new"]);
+  });
+
+  test("starts over when the file is replaced", () => {
+    const path = transcript("one");
+    texts(path);
+    const replacement = transcript("replaced", "and longer than before");
+    renameSync(replacement, path);
+    expect(texts(path)).toEqual(["replaced", "and longer than before"]);
+  });
+
+  test("a new consumer can start near the end and skips the partial first line", () => {
+    const path = transcript("a".repeat(200), "recent");
+    expect(texts(path, "tail", { initialTailBytes: 100 })).toEqual(["recent"]);
+  });
+
+  test("ignores a missing file", () => {
+    expect(readNewTranscriptEntries(join(dir, "missing.jsonl"), "test").entries).toEqual([]);
+  });
+});